@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { llm } from '@/lib/llm';
+import { JSONSchema } from '@/lib/schema';
+import { ColumnSpec, coerceCellValue, columnSchema } from '@/lib/columns';
 
 interface AggregationRequest {
   data: {
@@ -11,6 +13,9 @@ interface AggregationRequest {
   aggregationPrompt: string;
   sheetName: string;
   sheetIndex: number;
+  forceRefresh?: boolean;
+  // Declared types of the aggregated columns, keyed by header
+  columnSpecs?: { [header: string]: ColumnSpec };
 }
 
 export async function POST(req: Request) {
@@ -49,19 +54,30 @@ export async function POST(req: Request) {
       Return only the JSON object.
     `;
 
-    const llmResponse = await llm(prompt);
-    let parsedData = {};
-    
+    // Every column comes back keyed by its exact header, typed as the column declares
+    const columnSpecs = body.columnSpecs || {};
+    const schema: JSONSchema = {
+      type: 'object',
+      properties: body.columns.reduce((acc, column, index) => {
+        acc[column] = index === 0 ? { type: 'string' } : columnSchema(column, columnSpecs[column]);
+        return acc;
+      }, {} as Record<string, JSONSchema>),
+      required: body.columns,
+      additionalProperties: false
+    };
+
+    let parsedData: Record<string, string>;
+
     try {
-      parsedData = JSON.parse(llmResponse.text);
-      // Ensure all values are strings and all columns are present
+      const llmResponse = await llm<Record<string, unknown>>(prompt, undefined, { schema, bypassCache: body.forceRefresh });
+      const values = llmResponse.data || {};
       parsedData = body.columns.reduce((acc, column) => {
-        acc[column] = (parsedData[column] || '').toString();
+        acc[column] = coerceCellValue(values[column], columnSpecs[column]).value;
         return acc;
       }, {} as Record<string, string>);
     } catch (error) {
-      console.error('Error parsing LLM response:', error);
-      // If parsing fails, create an object with empty values for all columns
+      console.error('Error getting structured LLM response:', error);
+      // If the model never produced valid output, create an object with empty values for all columns
       parsedData = body.columns.reduce((acc, column) => {
         acc[column] = column === body.columns[0] ? prevSheetName : '';
         return acc;
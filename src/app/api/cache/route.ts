@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { cacheInspect, cacheList, cachePurge, isValidCacheName, listNamespaces } from '@/lib/cache';
+
+function invalidName(namespace?: string, key?: string) {
+  const invalid = [namespace, key].find(name => name && !isValidCacheName(name));
+  return invalid && NextResponse.json(
+    { success: false, error: `Invalid cache namespace or key ${invalid}` },
+    { status: 400 }
+  );
+}
+
+// GET /api/cache?namespace=llm lists entries; adding &key=<key> returns one entry in full
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const namespace = searchParams.get('namespace') || undefined;
+    const key = searchParams.get('key');
+    const invalid = invalidName(namespace, key || undefined);
+    if (invalid) return invalid;
+
+    if (namespace && key) {
+      const entry = cacheInspect(namespace, key);
+      if (!entry) {
+        return NextResponse.json(
+          { success: false, error: 'Cache entry not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, namespace, key, entry });
+    }
+
+    const entries = cacheList(namespace);
+    return NextResponse.json({
+      success: true,
+      namespaces: listNamespaces(),
+      entries,
+      total: entries.length,
+      totalSize: entries.reduce((sum, entry) => sum + entry.size, 0)
+    });
+
+  } catch (error) {
+    console.error('Error in cache API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        entries: []
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/cache purges everything, or narrows by namespace, key and &expired=true
+export async function DELETE(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const namespace = searchParams.get('namespace') || undefined;
+    const key = searchParams.get('key') || undefined;
+    const invalid = invalidName(namespace, key);
+    if (invalid) return invalid;
+
+    const removed = cachePurge({
+      namespace,
+      key,
+      expiredOnly: searchParams.get('expired') === 'true'
+    });
+
+    return NextResponse.json({
+      success: true,
+      removed
+    });
+
+  } catch (error) {
+    console.error('Error in cache API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        removed: 0
+      },
+      { status: 500 }
+    );
+  }
+}
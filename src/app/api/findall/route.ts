@@ -1,53 +1,206 @@
 import { NextResponse } from 'next/server';
-import { createAndExecuteTask } from '@/lib/agent';
+import crypto from 'crypto';
+import { createAndExecuteTask, FINDALL_TASK_MODEL } from '@/lib/agent';
+import { cacheGet, cacheSet } from '@/lib/cache';
+import { ColumnSpec, coerceCellValue, columnSchema } from '@/lib/columns';
+import { dedupeBy, dedupeEntities } from '@/lib/dedupe';
+import { CellProvenance, provenanceFor } from '@/lib/provenance';
 
-export async function POST(req: Request) {
-  try {
-    const { query, sheet_level } = await req.json();
-
-    const findAllTask = {
-      name: "find_all",
-      description: "Find certain entities as requested",
-      model: "rhodium",
-      prompt: `Find a list of entities that match the query: ${query}`,
-      input_schema: {
-        type: "object",
-        properties: {
-          query: {
-            type: "string",
-            description: "The search query"
-          }
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+// A page is filled over several task runs when one comes back short; this bounds the runs per request
+const MAX_BATCHES = 4;
+// Only the most recent names are listed in the prompt; older ones are still caught by de-duplication
+const MAX_EXCLUDED_IN_PROMPT = 200;
+
+interface FoundEntity {
+  name: string;
+  // Values for the requested columns, keyed by header
+  attributes: { [header: string]: string };
+}
+
+// Everything found so far for a query, kept under the cursor so "find more" carries on from it
+interface FindAllSession {
+  query: string;
+  // Other columns to fill for each entity, with their specs
+  columns: string[];
+  columnSpecs: { [header: string]: ColumnSpec };
+  // Distinct entities in the order they were found; may run ahead of what has been returned
+  found: FoundEntity[];
+  returned: number;
+  // Entities the client already had, never returned
+  exclude: string[];
+  // Runs in a row that only turned up entities already known
+  stalls: number;
+  // Set once a run returns nothing, or keeps returning only known entities
+  exhausted: boolean;
+  provenance?: CellProvenance;
+}
+
+// Without columns each result is just a name; with them, an object carrying a value per column
+function resultSchema(columns: string[], columnSpecs: { [header: string]: ColumnSpec }) {
+  if (columns.length === 0) {
+    return { type: "string" };
+  }
+
+  return {
+    type: "object",
+    properties: columns.reduce((acc, column) => {
+      acc[column] = columnSchema(column, columnSpecs[column]);
+      return acc;
+    }, { name: { type: "string", description: "Name of the entity" } } as { [key: string]: object }),
+    required: ["name", ...columns],
+    additionalProperties: false
+  };
+}
+
+function findAllTask(session: FindAllSession) {
+  const attributes = session.columns.length > 0
+    ? ` For each entity, also give: ${session.columns.join(', ')}.`
+    : '';
+
+  return {
+    name: "find_all",
+    description: "Find certain entities as requested",
+    model: FINDALL_TASK_MODEL,
+    prompt: `Find a list of entities that match the query: ${session.query}.${attributes} Return at most {limit} entities, and none of those listed in exclude.`,
+    input_schema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "The search query"
         },
-        required: ["query"],
-        additionalProperties: false
-      },
-      output_schema: {
-        type: "object",
-        properties: {
-          results: {
-            type: "array",
-            description: "Array of matching entities",
-            items: {
-              type: "string"
-            }
-          }
+        limit: {
+          type: "string",
+          description: "Maximum number of entities to return"
         },
-        required: ["results"],
-        additionalProperties: false
+        exclude: {
+          type: "string",
+          description: "Entities already found, one per line, which must not be returned again"
+        }
+      },
+      required: ["query", "limit", "exclude"],
+      additionalProperties: false
+    },
+    output_schema: {
+      type: "object",
+      properties: {
+        results: {
+          type: "array",
+          description: "Array of matching entities",
+          items: resultSchema(session.columns, session.columnSpecs)
+        }
+      },
+      required: ["results"],
+      additionalProperties: false
+    }
+  };
+}
+
+// Task results are names, or objects with a name and column values; values that don't fit their column are left empty
+function toEntity(result: unknown, session: FindAllSession): FoundEntity {
+  if (typeof result !== 'object' || result === null) {
+    return { name: String(result ?? '').trim(), attributes: {} };
+  }
+
+  const record = result as { [key: string]: unknown };
+  return {
+    name: String(record.name ?? '').trim(),
+    attributes: session.columns.reduce((acc, column) => {
+      const coerced = coerceCellValue(record[column], session.columnSpecs[column]);
+      acc[column] = coerced.error ? '' : coerced.value;
+      return acc;
+    }, {} as { [header: string]: string })
+  };
+}
+
+export async function POST(req: Request) {
+  try {
+    const { query, sheet_level, forceRefresh, limit, offset, cursor, exclude, columns, columnSpecs } = await req.json();
+
+    let session: FindAllSession | undefined;
+    if (cursor) {
+      session = /^[a-zA-Z0-9_-]+$/.test(cursor) ? cacheGet<FindAllSession>('findall', cursor) : undefined;
+      if (!session) {
+        return NextResponse.json(
+          { success: false, error: 'Cursor is invalid or has expired', results: [] },
+          { status: 400 }
+        );
+      }
+    } else if (!query) {
+      return NextResponse.json(
+        { success: false, error: 'query is required', results: [] },
+        { status: 400 }
+      );
+    } else {
+      session = {
+        query,
+        columns: Array.isArray(columns) ? columns.map(String).filter(Boolean) : [],
+        columnSpecs: columnSpecs || {},
+        found: [],
+        returned: 0,
+        exclude: [],
+        stalls: 0,
+        exhausted: false
+      };
+    }
+
+    const excluded: string[] = Array.isArray(exclude) ? exclude.map(String).filter(Boolean) : [];
+    session.exclude = dedupeEntities([...session.exclude, ...excluded]);
+
+    // A cell-level lookup (sheet_level: false) wants the single best match rather than a column of them
+    const pageSize = Math.min(Math.max(parseInt(limit) || (sheet_level === false ? 1 : DEFAULT_LIMIT), 1), MAX_LIMIT);
+    // A cursor carries on where the last page ended; otherwise offset skips that many distinct results
+    const start = cursor ? session.returned : Math.max(parseInt(offset) || 0, 0);
+    const task = findAllTask(session);
+    const nameOf = (entity: FoundEntity) => entity.name;
+
+    // Entities the client has since added may already sit in the buffer
+    session.found = dedupeBy(session.found, nameOf, session.exclude);
+
+    for (let batch = 0; batch < MAX_BATCHES && !session.exhausted && session.found.length < start + pageSize; batch++) {
+      const known = [...session.exclude, ...session.found.map(nameOf)];
+      const response = await createAndExecuteTask(task, {
+        query: session.query,
+        limit: String(start + pageSize - session.found.length),
+        exclude: known.slice(-MAX_EXCLUDED_IN_PROMPT).join('\n')
+      }, {
+        bypassCache: !!forceRefresh,
+        // Stop polling if the client goes away
+        signal: req.signal
+      });
+      if (!response.output?.results) {
+        throw new Error('No results returned from task');
       }
-    };
 
-    const response = await createAndExecuteTask(findAllTask, { query });
-    console.log(response);
-    if (!response.output?.results) {
-      throw new Error('No results returned from task');
+      const entities = (response.output.results as unknown[]).map(result => toEntity(result, session));
+      const fresh = dedupeBy(entities, nameOf, known);
+      session.found.push(...fresh);
+      session.stalls = fresh.length > 0 ? 0 : session.stalls + 1;
+      session.exhausted = response.output.results.length === 0 || session.stalls >= 2;
+      session.provenance = provenanceFor('results', { ...response, model: FINDALL_TASK_MODEL });
     }
 
+    const page = session.found.slice(start, start + pageSize);
+    session.returned = start + page.length;
+    const hasMore = !session.exhausted || session.found.length > session.returned;
+
+    const nextCursor = cursor || crypto.randomUUID();
+    cacheSet('findall', nextCursor, session, { query: session.query });
+
     return NextResponse.json({
       success: true,
-      results: response.output.results,
-      query: query,
-      total: response.output.results.length
+      results: page.map(nameOf),
+      // Column values for each result, in the same order, when columns were requested
+      attributes: session.columns.length > 0 ? page.map(entity => entity.attributes) : undefined,
+      // Shared by every result of this run
+      provenance: session.provenance,
+      query: session.query,
+      offset: start,
+      total: page.length,
+      hasMore,
+      nextCursor: hasMore ? nextCursor : null
     });
 
   } catch (error) {
@@ -61,4 +214,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -3,27 +3,80 @@ import { llm } from '@/lib/llm';
 interface LLMRequest {
   inputs: string[];
   prompt: string;
-}   
+  stream?: boolean;
+  forceRefresh?: boolean;
+}
 
-export async function POST(req: Request) {
-  try {
-    const { inputs, prompt } = await req.json() as LLMRequest;
+// One line of the NDJSON stream; every event carries the index of the input row it belongs to
+type LLMStreamEvent =
+  | { type: 'token'; index: number; text: string }
+  | { type: 'done'; index: number; text: string; fromCache: boolean }
+  | { type: 'error'; index: number; error: string };
 
-    // For demonstration, we'll just echo back a modified version of each input
-    // In a real implementation, you would call your LLM service here
-    const outputs = await Promise.all(inputs.map(async (input) => {
-      // Replace any {input} placeholders in the prompt with the actual input
-      const processedPrompt = `
+function buildPrompt(prompt: string, input: string): string {
+  return `
         ${prompt}
 
-        Inputs: 
+        Inputs:
         ${JSON.stringify(input)}
 
         Follow the instructions in the prompt and return the response using the context as described. You should substitue the variables when you can / with the provided context.
-      `
-      const llmResponse = await llm(processedPrompt, "gpt-4o");  
+      `;
+}
+
+// Runs every input at once and writes each row's tokens as they arrive, so
+// finished rows show up without waiting for the slowest one
+function streamOutputs(inputs: string[], prompt: string, forceRefresh: boolean): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: LLMStreamEvent) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      await Promise.all(inputs.map(async (input, index) => {
+        try {
+          const llmResponse = await llm(buildPrompt(prompt, input), "gpt-4o", {
+            onToken: (text) => send({ type: 'token', index, text }),
+            bypassCache: forceRefresh
+          });
+          send({ type: 'done', index, text: llmResponse.text, fromCache: llmResponse.fromCache });
+        } catch (error) {
+          console.error(`Error in LLM stream for input ${index}:`, error);
+          send({ type: 'error', index, error: 'Internal server error' });
+        }
+      }));
+
+      controller.close();
+    }
+  });
 
-      return llmResponse;
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache'
+    }
+  });
+}
+
+export async function POST(req: Request) {
+  try {
+    const { inputs, prompt, stream, forceRefresh = false } = await req.json() as LLMRequest;
+
+    if (stream) {
+      return streamOutputs(inputs, prompt, forceRefresh);
+    }
+
+    const outputs = await Promise.all(inputs.map(async (input, index) => {
+      // Replace any {input} placeholders in the prompt with the actual input
+      try {
+        return await llm(buildPrompt(prompt, input), "gpt-4o", { bypassCache: forceRefresh });
+      } catch (error) {
+        // Leave this row empty rather than failing every other row with it
+        console.error(`Error in LLM API for input ${index}:`, error);
+        return { text: '', fromCache: false };
+      }
     }));
 
     return NextResponse.json({
@@ -35,12 +88,12 @@ export async function POST(req: Request) {
   } catch (error) {
     console.error('Error in LLM API:', error);
     return NextResponse.json(
-      { 
-        success: false, 
+      {
+        success: false,
         error: 'Internal server error',
         outputs: []
       },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getExecution, waitForExecution } from '@/lib/localTasks';
+
+const MAX_WAIT_SECONDS = 60;
+
+// Returns the execution's status, holding the request open for up to ?wait= seconds while it runs
+export async function GET(req: Request, { params }: { params: Promise<{ taskId: string; executionId: string }> }) {
+  try {
+    const { taskId, executionId } = await params;
+    const execution = getExecution(taskId, executionId);
+
+    if (!execution) {
+      return NextResponse.json(
+        { success: false, error: `Unknown execution ${executionId}` },
+        { status: 404 }
+      );
+    }
+
+    const wait = Math.min(parseFloat(new URL(req.url).searchParams.get('wait') || '0') || 0, MAX_WAIT_SECONDS);
+
+    return NextResponse.json(await waitForExecution(execution, wait * 1000));
+
+  } catch (error) {
+    console.error('Error in local task execution API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
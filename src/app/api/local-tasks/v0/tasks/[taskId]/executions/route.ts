@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getLocalTask, startExecution, waitForExecution } from '@/lib/localTasks';
+
+// Quick executions are answered inline; slower ones come back as running and get polled
+const INLINE_WAIT_MS = 5000;
+
+export async function POST(req: Request, { params }: { params: Promise<{ taskId: string }> }) {
+  try {
+    const { taskId } = await params;
+    const task = getLocalTask(taskId);
+
+    if (!task) {
+      return NextResponse.json(
+        { success: false, error: `Unknown task ${taskId}` },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const execution = startExecution(task, body.arguments || {});
+
+    return NextResponse.json(await waitForExecution(execution, INLINE_WAIT_MS));
+
+  } catch (error) {
+    console.error('Error in local task executions API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { createLocalTask } from '@/lib/localTasks';
+
+// Local stand-in for the task backend's create endpoint
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+
+    if (!body.prompt || !body.output_schema) {
+      return NextResponse.json(
+        { success: false, error: 'prompt and output_schema are required' },
+        { status: 400 }
+      );
+    }
+
+    const task = createLocalTask({
+      name: body.name || 'Untitled task',
+      description: body.description || '',
+      model: body.model || '',
+      prompt: body.prompt,
+      input_schema: body.input_schema || { type: 'object', properties: {} },
+      output_schema: body.output_schema
+    });
+
+    return NextResponse.json(task);
+
+  } catch (error) {
+    console.error('Error in local tasks API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
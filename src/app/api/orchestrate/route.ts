@@ -1,58 +1,28 @@
 import { NextResponse } from 'next/server';
+import { orchestrate } from '@/lib/orchestrator';
+import { SheetContext, TOOLS } from '@/lib/tools';
 
-interface ToolCall {
-  type: 'findall_sheets' | 'update_headers';
-  params: {
-    query?: string;
-    headers?: string[];  // For update_headers
-  };
-}
+const EMPTY_SHEET: SheetContext = { headers: [], rowCount: 0, rows: [] };
 
 export async function POST(req: Request) {
   try {
-    const { messages } = await req.json();
-    const lastMessage = messages[messages.length - 1];
-    const toolCalls: ToolCall[] = [];
-    
-    // Check for header update request
-    if (lastMessage.content.toLowerCase().includes('update header') || 
-        lastMessage.content.toLowerCase().includes('change header') ||
-        lastMessage.content.toLowerCase().includes('update column')) {
-      // This is a simple example - in reality, you'd want more sophisticated parsing
-      // For demo, we'll just create some sample headers
-      toolCalls.push({
-        type: 'update_headers',
-        params: {
-          headers: ['Name', 'Age', 'Email', 'Phone', 'Address']
-        }
-      });
-      
-      return NextResponse.json({
-        response: "I'll update the column headers for you.",
-        toolCalls
-      });
-    }
+    const { messages, context, tools } = await req.json();
 
-    // Existing findall_sheets logic
-    if (lastMessage.content.toLowerCase().includes('find sheets') || 
-        lastMessage.content.toLowerCase().includes('search sheets')) {
-      toolCalls.push({
-        type: 'findall_sheets',
-        params: {
-          query: lastMessage.content
-        }
-      });
-      
-      return NextResponse.json({
-        response: "I'll help you find those sheets. Let me search for them...",
-        toolCalls
-      });
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json(
+        { error: 'messages are required' },
+        { status: 400 }
+      );
     }
 
-    // Default response without tool calls
+    // The tools the client can carry out, by name; all of them when it doesn't say
+    const available = Array.isArray(tools) ? TOOLS.filter(tool => tools.includes(tool.name)) : TOOLS;
+    const { response, toolCalls, steps } = await orchestrate(messages, { ...EMPTY_SHEET, ...context }, available);
+
     return NextResponse.json({
-      response: "This is a placeholder response. Implement your orchestration logic here.",
-      toolCalls: []
+      response,
+      toolCalls,
+      steps
     });
 
   } catch (error) {
@@ -62,4 +32,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
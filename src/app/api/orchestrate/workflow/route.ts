@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { planWorkflow } from '@/lib/orchestrator';
+
+// Proposes a workflow for the conversation; the client shows it as a diff against `steps` before applying it
+export async function POST(req: Request) {
+  try {
+    const { messages, steps } = await req.json();
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json(
+        { error: 'messages are required' },
+        { status: 400 }
+      );
+    }
+
+    const plan = await planWorkflow(messages, Array.isArray(steps) ? steps : []);
+
+    return NextResponse.json({
+      response: plan.response,
+      proposal: plan.steps
+    });
+
+  } catch (error) {
+    console.error('Error in orchestrate workflow API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
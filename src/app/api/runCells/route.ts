@@ -1,51 +1,111 @@
 import { NextResponse } from 'next/server';
-import { createAndExecuteTask } from '@/lib/agent';
+import { createAndExecuteTask, DEFAULT_TASK_MODEL } from '@/lib/agent';
+import { ColumnSpec, coerceCellValue, columnSchema, findHeader, renderTemplate } from '@/lib/columns';
+import { CellProvenance, provenanceFor } from '@/lib/provenance';
+import { JSONSchema } from '@/lib/schema';
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
     const input = body.input;
     const columns = body.columns;
+    const forceRefresh = !!body.forceRefresh;
+    // Declared type and description per header; headers without one are plain text
+    const columnSpecs: { [header: string]: ColumnSpec } = body.columnSpecs || {};
+    // The row's current values keyed by header, used to fill column instruction templates
+    const row: { [header: string]: string } = body.row || {};
+
+    // Instructions are filled in per row and passed as an argument, so rows
+    // with different values still share one task definition
+    const instructions = Object.keys(columns)
+      .filter(colName => columnSpecs[colName]?.instruction?.trim())
+      .map(colName => `${colName}: ${renderTemplate(columnSpecs[colName].instruction as string, row)}`);
+
+    // Values of the columns these ones are linked to, which the task can't see
+    // otherwise when no instruction references them
+    const dependencies = Object.keys(columns)
+      .flatMap(colName => columnSpecs[colName]?.dependsOn || [])
+      .map(name => findHeader(name, Object.keys(row)))
+      .filter((header, index, all): header is string => !!header && !!row[header] && all.indexOf(header) === index);
+
+    const inputProperties: { [key: string]: { type: string; description?: string } } = {
+      input: {
+        type: "string",
+        description: "The input entity"
+      }
+    };
+    const taskInputs: { [key: string]: string } = { input };
+    if (instructions.length > 0) {
+      inputProperties.instructions = {
+        type: "string",
+        description: "How to fill particular columns, one per line"
+      };
+      taskInputs.instructions = instructions.join('\n');
+    }
+    if (dependencies.length > 0) {
+      inputProperties.context = {
+        type: "string",
+        description: "Values already found for the entity, one per line"
+      };
+      taskInputs.context = dependencies.map(header => `${header}: ${row[header]}`).join('\n');
+    }
 
     // Execute the task
     const colString = Object.keys(columns).join(', ');
     const taskResponse = await createAndExecuteTask({
       name: "Process Row Data", 
       description: "Process data",
-      model: "neon",
-      prompt: "For the entity {input}, find the " + colString,
+      model: DEFAULT_TASK_MODEL,
+      prompt: "For the entity {input}, find the " + colString
+        + (instructions.length > 0 ? ". Follow these column instructions:\n{instructions}" : '')
+        + (dependencies.length > 0 ? "\nUse what is already known about it:\n{context}" : ''),
       input_schema: {
         type: "object",
-        properties: {
-          input: {
-            type: "string",
-            description: "The input entity"
-          }
-        },
-        required: ["input"],
+        properties: inputProperties,
+        required: Object.keys(inputProperties),
         additionalProperties: false
       },
       output_schema: {
         type: "object",
         properties: Object.keys(columns).reduce((acc, colName) => {
-          acc[colName] = {
-            type: "string", 
-            description: `${colName}`
-          };
+          acc[colName] = columnSchema(colName, columnSpecs[colName]);
           return acc;
-        }, {} as Record<string, { type: string; description: string }>),
+        }, {} as Record<string, JSONSchema>),
         required: Object.keys(columns),
         additionalProperties: false
       }
-    }, { input });
+    }, taskInputs, {
+      bypassCache: forceRefresh,
+      // Stop polling if the client goes away
+      signal: req.signal
+    });
 
     if (!taskResponse.output) {
       throw new Error('No output returned from task');
     }
-    
+
+    // Normalise each value to its column type; values that still don't fit are
+    // reported and left out of the results, so the cells keep what they had
+    const results: { [header: string]: string } = {};
+    const errors: { [header: string]: string } = {};
+    const provenance: { [header: string]: CellProvenance } = {};
+    Object.keys(columns).forEach(colName => {
+      const coerced = coerceCellValue(taskResponse.output[colName], columnSpecs[colName]);
+      if (coerced.error) {
+        errors[colName] = `${coerced.error}, got "${coerced.value}"`;
+      } else {
+        results[colName] = coerced.value;
+        if (coerced.value) {
+          provenance[colName] = provenanceFor(colName, { ...taskResponse, model: DEFAULT_TASK_MODEL });
+        }
+      }
+    });
+
     return NextResponse.json({
       success: true,
-      results: taskResponse.output,
+      results,
+      errors,
+      provenance,
       input
     });
 
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { listKnownTasks } from '@/lib/agent';
+
+// Lists every task definition created so far, most recently used first
+export async function GET() {
+  try {
+    const tasks = listKnownTasks();
+
+    return NextResponse.json({
+      success: true,
+      tasks,
+      total: tasks.length
+    });
+
+  } catch (error) {
+    console.error('Error in tasks API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        tasks: []
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import {
+  WorkflowConflictError,
+  deleteWorkflow,
+  getWorkflow,
+  isValidWorkflowId,
+  parseDetails,
+  saveWorkflow,
+  updateWorkflowDetails
+} from '@/lib/workflowStore';
+import { deleteSnapshots } from '@/lib/snapshotStore';
+
+type Params = { params: Promise<{ workflowId: string }> };
+
+function invalidId(workflowId: string) {
+  return NextResponse.json(
+    { success: false, error: `Invalid workflow id ${workflowId}` },
+    { status: 400 }
+  );
+}
+
+function notFound(workflowId: string) {
+  return NextResponse.json(
+    { success: false, error: `Unknown workflow ${workflowId}` },
+    { status: 404 }
+  );
+}
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { workflowId } = await params;
+    if (!isValidWorkflowId(workflowId)) return invalidId(workflowId);
+
+    const workflow = getWorkflow(workflowId);
+    if (!workflow) return notFound(workflowId);
+
+    return NextResponse.json({ success: true, workflow });
+
+  } catch (error) {
+    console.error('Error in workflow API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT { steps, revision } creates the workflow or saves over it. `revision` is the
+// one last loaded; if the workflow has been saved since, the save is refused with
+// 409 and the stored workflow, so changes made elsewhere aren't overwritten.
+export async function PUT(req: Request, { params }: Params) {
+  try {
+    const { workflowId } = await params;
+    if (!isValidWorkflowId(workflowId)) return invalidId(workflowId);
+
+    const { steps, revision } = await req.json();
+    if (!Array.isArray(steps)) {
+      return NextResponse.json(
+        { success: false, error: 'steps must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const workflow = saveWorkflow(workflowId, steps, typeof revision === 'number' ? revision : undefined);
+    return NextResponse.json({ success: true, workflow });
+
+  } catch (error) {
+    if (error instanceof WorkflowConflictError) {
+      return NextResponse.json(
+        { success: false, error: 'Workflow was changed by another save', workflow: error.current },
+        { status: 409 }
+      );
+    }
+    console.error('Error in workflow API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH { name, owner, archived, lastRunAt } changes the workflow's details without touching its steps
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { workflowId } = await params;
+    if (!isValidWorkflowId(workflowId)) return invalidId(workflowId);
+
+    const workflow = updateWorkflowDetails(workflowId, parseDetails(await req.json()));
+    if (!workflow) return notFound(workflowId);
+
+    return NextResponse.json({ success: true, workflow });
+
+  } catch (error) {
+    console.error('Error in workflow API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    const { workflowId } = await params;
+    if (!isValidWorkflowId(workflowId)) return invalidId(workflowId);
+
+    if (!deleteWorkflow(workflowId)) return notFound(workflowId);
+    deleteSnapshots(workflowId);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in workflow API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { isValidWorkflowId } from '@/lib/workflowStore';
+import { deleteSnapshot, getSnapshot, renameSnapshot } from '@/lib/snapshotStore';
+
+type Params = { params: Promise<{ workflowId: string; snapshotId: string }> };
+
+function invalidId(id: string) {
+  return NextResponse.json(
+    { success: false, error: `Invalid id ${id}` },
+    { status: 400 }
+  );
+}
+
+function notFound(snapshotId: string) {
+  return NextResponse.json(
+    { success: false, error: `Unknown snapshot ${snapshotId}` },
+    { status: 404 }
+  );
+}
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { workflowId, snapshotId } = await params;
+    if (!isValidWorkflowId(workflowId)) return invalidId(workflowId);
+    if (!isValidWorkflowId(snapshotId)) return invalidId(snapshotId);
+
+    const snapshot = getSnapshot(workflowId, snapshotId);
+    if (!snapshot) return notFound(snapshotId);
+
+    return NextResponse.json({ success: true, snapshot });
+
+  } catch (error) {
+    console.error('Error in snapshot API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH { name } renames the snapshot
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { workflowId, snapshotId } = await params;
+    if (!isValidWorkflowId(workflowId)) return invalidId(workflowId);
+    if (!isValidWorkflowId(snapshotId)) return invalidId(snapshotId);
+
+    const { name } = await req.json();
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = renameSnapshot(workflowId, snapshotId, name.trim());
+    if (!snapshot) return notFound(snapshotId);
+
+    return NextResponse.json({ success: true, snapshot });
+
+  } catch (error) {
+    console.error('Error in snapshot API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    const { workflowId, snapshotId } = await params;
+    if (!isValidWorkflowId(workflowId)) return invalidId(workflowId);
+    if (!isValidWorkflowId(snapshotId)) return invalidId(snapshotId);
+
+    if (!deleteSnapshot(workflowId, snapshotId)) return notFound(snapshotId);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in snapshot API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
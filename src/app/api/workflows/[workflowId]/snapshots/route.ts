@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { isValidWorkflowId } from '@/lib/workflowStore';
+import { createSnapshot, listSnapshots } from '@/lib/snapshotStore';
+
+type Params = { params: Promise<{ workflowId: string }> };
+
+function invalidId(workflowId: string) {
+  return NextResponse.json(
+    { success: false, error: `Invalid workflow id ${workflowId}` },
+    { status: 400 }
+  );
+}
+
+// GET /api/workflows/<id>/snapshots?stepId=... lists the workflow's snapshots, or
+// one step's, oldest first and without their rows
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { workflowId } = await params;
+    if (!isValidWorkflowId(workflowId)) return invalidId(workflowId);
+
+    const stepId = new URL(req.url).searchParams.get('stepId') || undefined;
+    const snapshots = listSnapshots(workflowId, stepId);
+    return NextResponse.json({
+      success: true,
+      snapshots,
+      total: snapshots.length
+    });
+
+  } catch (error) {
+    console.error('Error in snapshots API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        snapshots: []
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { stepId, name, headers, sheets } keeps a step's results after a run. The
+// workflow doesn't have to be saved yet, since a run can finish before its first save.
+export async function POST(req: Request, { params }: Params) {
+  try {
+    const { workflowId } = await params;
+    if (!isValidWorkflowId(workflowId)) return invalidId(workflowId);
+
+    const { stepId, name, headers, sheets } = await req.json();
+    if (typeof stepId !== 'string' || !stepId || !Array.isArray(headers) || !Array.isArray(sheets)) {
+      return NextResponse.json(
+        { success: false, error: 'stepId, headers and sheets are required' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = createSnapshot(
+      workflowId,
+      stepId,
+      typeof name === 'string' && name.trim() ? name.trim() : 'Snapshot',
+      headers,
+      sheets
+    );
+    return NextResponse.json({ success: true, snapshot }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in snapshots API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
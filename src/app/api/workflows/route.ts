@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { duplicateWorkflow, listWorkflows, parseDetails, saveWorkflow } from '@/lib/workflowStore';
+
+// GET /api/workflows lists saved workflows, archived ones included, most recently saved first
+export async function GET() {
+  try {
+    const workflows = listWorkflows();
+    return NextResponse.json({
+      success: true,
+      workflows,
+      total: workflows.length
+    });
+
+  } catch (error) {
+    console.error('Error in workflows API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        workflows: []
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workflows creates a workflow from { steps, name, owner } under a new id,
+// or copies the one named by { duplicateOf }, with name and owner overriding the copy's
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { steps, duplicateOf } = body;
+    const details = parseDetails(body);
+
+    if (duplicateOf !== undefined) {
+      const workflow = typeof duplicateOf === 'string' && duplicateWorkflow(duplicateOf, details);
+      if (!workflow) {
+        return NextResponse.json(
+          { success: false, error: `Unknown workflow ${duplicateOf}` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, workflow }, { status: 201 });
+    }
+
+    if (steps !== undefined && !Array.isArray(steps)) {
+      return NextResponse.json(
+        { success: false, error: 'steps must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const workflow = saveWorkflow(crypto.randomUUID(), steps || [], undefined, details);
+    return NextResponse.json({ success: true, workflow }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in workflows API:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import React from 'react';
+import { useParams } from 'next/navigation';
+import { WorkflowBuilder } from '@/components/WorkflowBuilder';
+
+export default function WorkflowEditorPage() {
+  const { workflowId } = useParams<{ workflowId: string }>();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <WorkflowBuilder key={workflowId} workflowId={workflowId} />
+    </div>
+  );
+}
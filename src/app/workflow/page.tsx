@@ -1,12 +1,12 @@
 'use client';
 
 import React from 'react';
-import { WorkflowBuilder } from '@/components/WorkflowBuilder';
+import { WorkflowLibrary } from '@/components/WorkflowLibrary';
 
 export default function WorkflowPage() {
   return (
     <div className="min-h-screen bg-gray-50">
-      <WorkflowBuilder />
+      <WorkflowLibrary />
     </div>
   );
-} 
\ No newline at end of file
+}
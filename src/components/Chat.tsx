@@ -1,28 +1,55 @@
 import React, { useState, useRef, useEffect } from 'react';
-
-interface Message {
-  id: string;
-  content: string;
-  role: 'user' | 'system';
-  timestamp: number;
-}
-
-interface ToolCall {
-  type: 'findall_sheets' | 'update_headers';
-  params: {
-    query?: string;
-    headers?: string[];
-  };
-}
+import { RunMode } from '@/lib/enrichment';
+import { SheetContext, ToolCall, ToolName, applyToolCall, inverseToolCall } from '@/lib/tools';
+import { ConversationStorage, Mutation, StoredMessage as Message, downloadConversations } from '@/lib/conversations';
 
 interface ChatProps {
   onClose: () => void;
+  // The workflow the conversation is stored with, and the step it works on
+  workflowId?: string;
+  stepId?: string;
+  // The sheet the assistant works on, sent with every message
+  context?: SheetContext;
   onCreateSheet?: (name: string) => void;
   onUpdateHeaders?: (headers: string[]) => void;
+  onAddRows?: (values: string[]) => void;
+  onDeleteRows?: (rows: number[]) => void;
+  onAddColumns?: (columns: string[]) => void;
+  onDeleteColumns?: (columns: string[]) => void;
+  onRunCells?: (mode?: RunMode) => Promise<void> | void;
+  onAggregate?: (criteria: string) => Promise<void> | void;
 }
 
-export default function Chat({ onClose, onCreateSheet, onUpdateHeaders }: ChatProps) {
+export default function Chat({
+  onClose,
+  workflowId = 'default',
+  stepId,
+  context,
+  onCreateSheet,
+  onUpdateHeaders,
+  onAddRows,
+  onDeleteRows,
+  onAddColumns,
+  onDeleteColumns,
+  onRunCells,
+  onAggregate
+}: ChatProps) {
+  // Only tools with a handler are offered to the model, so it doesn't plan calls that can't be made here
+  const handlers: { [name in ToolName]: unknown } = {
+    findall_sheets: onCreateSheet,
+    update_headers: onUpdateHeaders,
+    add_rows: onAddRows,
+    delete_rows: onDeleteRows,
+    add_columns: onAddColumns,
+    delete_columns: onDeleteColumns,
+    run_cells: onRunCells,
+    aggregate: onAggregate
+  };
+  const tools = (Object.keys(handlers) as ToolName[]).filter(name => handlers[name]);
+
   const [messages, setMessages] = useState<Message[]>([]);
+  const [mutations, setMutations] = useState<Mutation[]>([]);
+  const [storage, setStorage] = useState<ConversationStorage | null>(null);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -36,74 +63,141 @@ export default function Chat({ onClose, onCreateSheet, onUpdateHeaders }: ChatPr
     scrollToBottom();
   }, [messages]);
 
-  const handleToolCalls = async (toolCalls: ToolCall[]) => {
-    for (const toolCall of toolCalls) {
-      if (toolCall.type === 'findall_sheets') {
-        try {
-          // Call the findall API
-          const response = await fetch('/api/findall', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ query: toolCall.params.query }),
-          });
-
-          if (!response.ok) throw new Error('Failed to get search results');
-
-          const data = await response.json();
-          
-          if (data.success && data.results.length > 0) {
-            // Create sheets for each result
-            for (const name of data.results) {
-              onCreateSheet?.(name);
-            }
-
-            // Add a message about the created sheets
-            setMessages(prev => [...prev, {
-              id: crypto.randomUUID(),
-              content: `I've created ${data.results.length} new sheets based on the search results.`,
-              role: 'system',
-              timestamp: Date.now(),
-            }]);
-          } else {
-            setMessages(prev => [...prev, {
-              id: crypto.randomUUID(),
-              content: 'I couldn\'t find any matching results to create sheets from.',
-              role: 'system',
-              timestamp: Date.now(),
-            }]);
-          }
-        } catch (error) {
-          console.error('Error executing findall_sheets:', error);
-          setMessages(prev => [...prev, {
-            id: crypto.randomUUID(),
-            content: 'Sorry, there was an error while trying to create sheets from the search results.',
-            role: 'system',
-            timestamp: Date.now(),
-          }]);
-        }
-      } else if (toolCall.type === 'update_headers') {
-        try {
-          if (toolCall.params.headers) {
-            onUpdateHeaders?.(toolCall.params.headers);
-            setMessages(prev => [...prev, {
-              id: crypto.randomUUID(),
-              content: 'I\'ve updated the column headers for you.',
-              role: 'system',
-              timestamp: Date.now(),
-            }]);
-          }
-        } catch (error) {
-          console.error('Error updating column headers:', error);
-          setMessages(prev => [...prev, {
-            id: crypto.randomUUID(),
-            content: 'Sorry, there was an error while trying to update the column headers.',
-            role: 'system',
-            timestamp: Date.now(),
-          }]);
+  // localStorage only exists in the browser, so the conversation is loaded after mounting
+  useEffect(() => {
+    const conversations = new ConversationStorage(workflowId);
+    setStorage(conversations);
+    setMessages(conversations.getMessages('chat', stepId));
+    setMutations(conversations.getMutations('chat', stepId));
+  }, [workflowId, stepId]);
+
+  useEffect(() => {
+    storage?.setMessages('chat', messages, stepId);
+  }, [storage, messages, stepId]);
+
+  const addSystemMessage = (content: string) => {
+    setMessages(prev => [...prev, {
+      id: crypto.randomUUID(),
+      content,
+      role: 'system',
+      timestamp: Date.now(),
+    }]);
+  };
+
+  const handleFindAllSheets = async (query: string) => {
+    try {
+      // Call the findall API
+      const response = await fetch('/api/findall', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query }),
+      });
+
+      if (!response.ok) throw new Error('Failed to get search results');
+
+      const data = await response.json();
+      
+      if (data.success && data.results.length > 0) {
+        // Create sheets for each result
+        for (const name of data.results) {
+          onCreateSheet?.(name);
         }
+
+        // Add a message about the created sheets
+        addSystemMessage(`I've created ${data.results.length} new sheets based on the search results.`);
+      } else {
+        addSystemMessage('I couldn\'t find any matching results to create sheets from.');
       }
+    } catch (error) {
+      console.error('Error executing findall_sheets:', error);
+      addSystemMessage('Sorry, there was an error while trying to create sheets from the search results.');
+    }
+  };
+
+  // Carries out one call, returning whether it went through; a call whose
+  // handler isn't wired up is reported and skipped
+  const handleToolCall = async (toolCall: ToolCall): Promise<boolean> => {
+    const { params } = toolCall;
+    try {
+      switch (toolCall.type) {
+        case 'findall_sheets':
+          if (!onCreateSheet) break;
+          await handleFindAllSheets(params.query || '');
+          return true;
+        case 'update_headers':
+          if (!onUpdateHeaders || !params.headers) break;
+          onUpdateHeaders(params.headers);
+          addSystemMessage('I\'ve updated the column headers for you.');
+          return true;
+        case 'add_rows':
+          if (!onAddRows || !params.values) break;
+          onAddRows(params.values);
+          addSystemMessage(`I've added ${params.values.length} rows.`);
+          return true;
+        case 'delete_rows':
+          if (!onDeleteRows || !params.rows) break;
+          onDeleteRows(params.rows);
+          addSystemMessage(`I've deleted ${params.rows.length} rows.`);
+          return true;
+        case 'add_columns':
+          if (!onAddColumns || !params.columns) break;
+          onAddColumns(params.columns);
+          addSystemMessage(`I've added the columns ${params.columns.join(', ')}.`);
+          return true;
+        case 'delete_columns':
+          if (!onDeleteColumns || !params.columns) break;
+          onDeleteColumns(params.columns);
+          addSystemMessage(`I've deleted the columns ${params.columns.join(', ')}.`);
+          return true;
+        case 'run_cells':
+          if (!onRunCells) break;
+          await onRunCells(params.mode);
+          addSystemMessage('I\'ve filled in the cells.');
+          return true;
+        case 'aggregate':
+          if (!onAggregate || !params.criteria) break;
+          await onAggregate(params.criteria);
+          addSystemMessage(`I've aggregated the sheet: ${params.criteria}.`);
+          return true;
+      }
+      addSystemMessage(`I can't ${toolCall.type.replace('_', ' ')} from here.`);
+    } catch (error) {
+      console.error(`Error executing ${toolCall.type}:`, error);
+      addSystemMessage(`Sorry, there was an error while trying to ${toolCall.type.replace('_', ' ')}.`);
+    }
+    return false;
+  };
+
+  // Applies the calls in order, logging each one that went through against the
+  // reply that made it, along with the call that would reverse it
+  const handleToolCalls = async (toolCalls: ToolCall[], messageId: string) => {
+    let sheet = context;
+    for (const toolCall of toolCalls) {
+      if (!(await handleToolCall(toolCall))) continue;
+      const applied = sheet && applyToolCall(sheet, toolCall);
+      const inverse = sheet && inverseToolCall(sheet, toolCall);
+      storage?.recordMutation({
+        source: 'chat',
+        messageId,
+        stepId,
+        description: applied ? applied.result : toolCall.type.replace('_', ' '),
+        reason: toolCall.reason,
+        toolCall,
+        undo: inverse ? { toolCall: inverse } : undefined
+      });
+      if (applied) sheet = applied.context;
+    }
+    if (storage) setMutations(storage.getMutations('chat', stepId));
+  };
+
+  // Reverses a change; later changes have to be undone first, as they were made on top of it
+  const undoMutation = async (mutation: Mutation) => {
+    if (!storage || !mutation.undo?.toolCall) return;
+    if (await handleToolCall(mutation.undo.toolCall)) {
+      storage.markUndone(mutation.id);
+      setMutations(storage.getMutations('chat', stepId));
     }
   };
 
@@ -128,23 +222,29 @@ export default function Chat({ onClose, onCreateSheet, onUpdateHeaders }: ChatPr
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ messages: [...messages, newMessage] }),
+        body: JSON.stringify({
+          messages: [...messages, newMessage].map(({ role, content }) => ({ role, content })),
+          context,
+          tools
+        }),
       });
 
       if (!response.ok) throw new Error('Failed to get response');
 
       const data = await response.json();
+      const replyId = crypto.randomUUID();
       
       setMessages(prev => [...prev, {
-        id: crypto.randomUUID(),
+        id: replyId,
         content: data.response,
         role: 'system',
         timestamp: Date.now(),
+        toolCalls: data.toolCalls,
       }]);
 
       // Handle any tool calls in the response
       if (data.toolCalls && data.toolCalls.length > 0) {
-        await handleToolCalls(data.toolCalls);
+        await handleToolCalls(data.toolCalls, replyId);
       }
     } catch (error) {
       console.error('Error:', error);
@@ -159,6 +259,34 @@ export default function Chat({ onClose, onCreateSheet, onUpdateHeaders }: ChatPr
     }
   };
 
+  // The reply's changes, with why each was made and, for the latest, a way back
+  const renderChanges = (message: Message) => {
+    const changes = mutations.filter(mutation => mutation.messageId === message.id);
+    if (changes.length === 0) return null;
+    const latest = [...mutations].reverse().find(mutation => !mutation.undoneAt);
+
+    return (
+      <div className="mt-2 space-y-1 text-xs">
+        {changes.map(mutation => (
+          <div key={mutation.id} className={`border border-gray-200 bg-white px-2 py-1 ${mutation.undoneAt ? 'text-gray-400 line-through' : ''}`}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{mutation.description}</span>
+              {mutation === latest && mutation.undo?.toolCall && (
+                <button
+                  onClick={() => undoMutation(mutation)}
+                  className="px-2 py-0.5 border border-gray-200 hover:bg-gray-50 transition-colors duration-150"
+                >
+                  Undo
+                </button>
+              )}
+            </div>
+            {mutation.reason && <div className="text-gray-500">Because: {mutation.reason}</div>}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -171,6 +299,14 @@ export default function Chat({ onClose, onCreateSheet, onUpdateHeaders }: ChatPr
       {/* Header */}
       <div className="p-4 border-b border-gray-200 flex items-center justify-between">
         <h2 className="text-lg font-semibold text-gray-800">Assistant</h2>
+        <div className="flex items-center gap-1">
+        <button
+          onClick={() => storage && downloadConversations(storage, workflowId)}
+          className="px-2 py-1 text-sm text-gray-600 rounded-lg hover:bg-gray-100
+            hover:text-gray-900 transition-colors duration-150"
+        >
+          Export
+        </button>
         <button
           onClick={onClose}
           className="p-2 rounded-lg hover:bg-gray-100 text-gray-600 
@@ -180,6 +316,7 @@ export default function Chat({ onClose, onCreateSheet, onUpdateHeaders }: ChatPr
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
           </svg>
         </button>
+        </div>
       </div>
 
       {/* Messages */}
@@ -199,6 +336,7 @@ export default function Chat({ onClose, onCreateSheet, onUpdateHeaders }: ChatPr
               `}
             >
               <p className="whitespace-pre-wrap">{message.content}</p>
+              {renderChanges(message)}
             </div>
           </div>
         ))}
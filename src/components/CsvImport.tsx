@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  ColumnTarget,
+  DELIMITERS,
+  ENCODINGS,
+  applyMapping,
+  decodeFile,
+  defaultMapping,
+  detectDelimiter,
+  detectHeaderRow,
+  parseDelimited
+} from '@/lib/csv';
+
+export interface CsvImportResult {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+  // Whether the rows replace the sheet's or are added after them
+  mode: 'replace' | 'append';
+  // For a grouped import, the column whose values name the 3D sheets
+  groupBy?: number;
+}
+
+interface CsvImportProps {
+  // The headers of the sheet being imported into, which file columns can be mapped to
+  sheetHeaders: string[];
+  // A file dropped on the sheet, to start from
+  initialFile?: File | null;
+  // Offers to split the rows into one 3D sheet per distinct value of a column
+  allowGrouping?: boolean;
+  onImport: (result: CsvImportResult) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export const isDelimitedFile = (file: File) =>
+  /\.(csv|tsv|txt)$/i.test(file.name) || ['text/csv', 'text/tab-separated-values', 'text/plain'].includes(file.type);
+
+export function CsvImport({ sheetHeaders, initialFile, allowGrouping, onImport, onClose }: CsvImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [encoding, setEncoding] = useState('auto');
+  const [detectedEncoding, setDetectedEncoding] = useState('');
+  const [delimiter, setDelimiter] = useState(',');
+  const [quote, setQuote] = useState('"');
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [rows, setRows] = useState<string[][]>([]);
+  // Targets picked by hand, by file column; the others follow defaultMapping
+  const [mappingOverrides, setMappingOverrides] = useState<{ [column: number]: ColumnTarget }>({});
+  const [mode, setMode] = useState<'replace' | 'append'>('replace');
+  const [groupBy, setGroupBy] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const width = rows[0]?.length || 0;
+  const fileHeaders = hasHeaderRow
+    ? (rows[0] || []).map((header, index) => header.trim() || `Column ${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+  const dataRows = hasHeaderRow ? rows.slice(1) : rows;
+  const mapping = defaultMapping(fileHeaders, sheetHeaders, hasHeaderRow)
+    .map((target, index) => mappingOverrides[index] ?? target);
+
+  // Delimiter and header row are guessed once per file; the options can override them
+  const loadFile = async (file: File) => {
+    if (!isDelimitedFile(file)) {
+      setError(`${file.name} isn't a CSV or TSV file.`);
+      return;
+    }
+    try {
+      const loaded = await file.arrayBuffer();
+      const { text } = decodeFile(loaded, 'auto');
+      const guessedDelimiter = /\.tsv$/i.test(file.name) ? '\t' : detectDelimiter(text, quote);
+      setFileName(file.name);
+      setEncoding('auto');
+      setDelimiter(guessedDelimiter);
+      setHasHeaderRow(detectHeaderRow(parseDelimited(text, { delimiter: guessedDelimiter, quote })));
+      setGroupBy(null);
+      setBuffer(loaded);
+      setError(null);
+    } catch (error) {
+      console.error('Error reading file:', error);
+      setError(`Could not read ${file.name}.`);
+    }
+  };
+
+  // A dropped file is loaded once, with the options as they are then, rather than again whenever they change
+  const loadFileRef = useRef(loadFile);
+  loadFileRef.current = loadFile;
+
+  useEffect(() => {
+    if (initialFile) loadFileRef.current(initialFile);
+  }, [initialFile]);
+
+  useEffect(() => {
+    if (!buffer) return;
+    try {
+      const decoded = decodeFile(buffer, encoding);
+      setDetectedEncoding(decoded.encoding);
+      setRows(parseDelimited(decoded.text, { delimiter, quote }));
+      setError(null);
+    } catch (error) {
+      console.error('Error decoding file:', error);
+      setError(`The file can't be read as ${encoding}.`);
+      setRows([]);
+    }
+  }, [buffer, encoding, delimiter, quote]);
+
+  // Mapped afresh whenever the file's columns change
+  useEffect(() => {
+    setMappingOverrides({});
+  }, [rows, hasHeaderRow]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
+
+  const handleImport = () => {
+    const result = applyMapping(dataRows, fileHeaders, sheetHeaders, mapping);
+    // A skipped column can't name the sheets
+    if (groupBy !== null && result.columns[groupBy] === -1) {
+      setError(`${fileHeaders[groupBy]} is skipped, so it can't name the 3D sheets.`);
+      return;
+    }
+    onImport({
+      fileName,
+      headers: result.headers,
+      rows: result.rows,
+      mode,
+      groupBy: groupBy !== null ? result.columns[groupBy] : undefined
+    });
+    onClose();
+  };
+
+  const targetValue = (target: ColumnTarget) => String(target);
+  const parseTarget = (value: string): ColumnTarget => value === 'new' || value === 'skip' ? value : Number(value);
+
+  return (
+    <div className="fixed inset-0 z-[100000] bg-gray-900/30 flex items-center justify-center p-8">
+      <div className="bg-white w-full max-w-[900px] max-h-full flex flex-col shadow-xl border border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-800">Import CSV or TSV</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 text-gray-600
+              hover:text-gray-900 transition-colors duration-150"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 flex flex-col gap-4 text-sm text-gray-700">
+          <label
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`block px-4 py-6 border-2 border-dashed text-center cursor-pointer transition-colors duration-150
+              ${isDragging ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200 hover:border-gray-300'}`}
+          >
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadFile(file);
+                e.target.value = '';
+              }}
+            />
+            {fileName
+              ? <span><span className="font-medium">{fileName}</span>: {dataRows.length} rows, {width} columns. Drop or pick another file to replace it.</span>
+              : 'Drop a CSV or TSV file here, or click to pick one'}
+          </label>
+
+          {error && (
+            <div className="px-4 py-2 bg-red-50 border border-red-200 text-red-700">{error}</div>
+          )}
+
+          {buffer && rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2">
+                  Delimiter
+                  <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className="px-2 py-1 border border-gray-200 bg-white">
+                    {DELIMITERS.map(option => <option key={option.label} value={option.value}>{option.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Quote
+                  <select value={quote} onChange={(e) => setQuote(e.target.value)} className="px-2 py-1 border border-gray-200 bg-white">
+                    <option value={'"'}>Double (&quot;)</option>
+                    <option value={"'"}>Single (&apos;)</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Encoding
+                  <select value={encoding} onChange={(e) => setEncoding(e.target.value)} className="px-2 py-1 border border-gray-200 bg-white">
+                    <option value="auto">Detect ({detectedEncoding})</option>
+                    {ENCODINGS.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={hasHeaderRow} onChange={(e) => setHasHeaderRow(e.target.checked)} />
+                  First row is headers
+                </label>
+              </div>
+
+              <table className="w-full border border-gray-200">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-3 py-1 font-medium">File column</th>
+                    <th className="px-3 py-1 font-medium">First value</th>
+                    <th className="px-3 py-1 font-medium">Goes to</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fileHeaders.map((header, index) => (
+                    <tr key={index} className="border-t border-gray-100">
+                      <td className="px-3 py-1">{header}</td>
+                      <td className="px-3 py-1 text-gray-500 truncate max-w-[240px]">{dataRows[0]?.[index]}</td>
+                      <td className="px-3 py-1">
+                        <select
+                          value={targetValue(mapping[index] ?? 'skip')}
+                          onChange={(e) => setMappingOverrides({ ...mappingOverrides, [index]: parseTarget(e.target.value) })}
+                          className="px-2 py-1 border border-gray-200 bg-white"
+                        >
+                          {sheetHeaders.map((sheetHeader, sheetIndex) => (
+                            <option key={sheetIndex} value={sheetIndex}>{sheetHeader}</option>
+                          ))}
+                          <option value="new">New column</option>
+                          <option value="skip">Skip</option>
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {allowGrouping && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={groupBy !== null}
+                    onChange={(e) => setGroupBy(e.target.checked ? 0 : null)}
+                  />
+                  Make a 3D sheet with one sheet per distinct value of
+                  <select
+                    value={groupBy ?? 0}
+                    disabled={groupBy === null}
+                    onChange={(e) => setGroupBy(Number(e.target.value))}
+                    className="px-2 py-1 border border-gray-200 bg-white disabled:opacity-50"
+                  >
+                    {fileHeaders.map((header, index) => <option key={index} value={index}>{header}</option>)}
+                  </select>
+                </label>
+              )}
+
+              {groupBy === null && sheetHeaders.length > 0 && (
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                    Replace the sheet&apos;s rows
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={mode === 'append'} onChange={() => setMode('append')} />
+                    Add after them
+                  </label>
+                </div>
+              )}
+
+              <div>
+                <div className="text-xs text-gray-500 mb-1">Preview</div>
+                <div className="overflow-x-auto border border-gray-200">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 text-left text-gray-600">
+                      <tr>{fileHeaders.map((header, index) => <th key={index} className="px-2 py-1 font-medium">{header}</th>)}</tr>
+                    </thead>
+                    <tbody>
+                      {dataRows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-t border-gray-100">
+                          {row.map((value, colIndex) => <td key={colIndex} className="px-2 py-1 whitespace-pre-wrap">{value}</td>)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-200 text-gray-700 hover:bg-gray-50 transition-colors duration-150"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={dataRows.length === 0}
+            className="px-4 py-2 bg-indigo-500 text-white font-medium
+              hover:bg-indigo-600 transition-colors duration-150 shadow-sm
+              disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {dataRows.length} rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
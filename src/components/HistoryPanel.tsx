@@ -0,0 +1,91 @@
+import React, { createContext, useEffect, useState } from 'react';
+import { History } from '@/lib/history';
+
+// The history edits are recorded in; sheets outside a workflow have none and record nothing
+export const HistoryContext = createContext<History | null>(null);
+
+interface HistoryPanelProps {
+  history: History;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function HistoryPanel({ history, isOpen, onClose }: HistoryPanelProps) {
+  const [entries, setEntries] = useState(() => history.entries());
+
+  useEffect(() => history.subscribe(() => setEntries(history.entries())), [history]);
+
+  const latest = entries.done[entries.done.length - 1];
+
+  return (
+    <div className={`
+      fixed left-0 top-0 w-80 h-screen bg-white shadow-xl transition-all duration-300 transform
+      ${isOpen ? 'translate-x-0' : '-translate-x-full'}
+      border-r border-gray-200/80 z-[55] flex flex-col
+    `}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800">History</h2>
+        <button
+          onClick={onClose}
+          className="p-2 rounded-lg hover:bg-gray-100 text-gray-600
+            hover:text-gray-900 transition-colors duration-150"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-200 flex gap-2">
+        <button
+          onClick={() => history.undo()}
+          disabled={entries.done.length === 0}
+          className="flex-1 px-3 py-1 border border-gray-200 text-gray-700 text-sm
+            hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => history.redo()}
+          disabled={entries.undone.length === 0}
+          className="flex-1 px-3 py-1 border border-gray-200 text-gray-700 text-sm
+            hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
+        >
+          Redo
+        </button>
+      </div>
+
+      {/* Newest first; clicking an entry undoes or redoes back to it */}
+      <div className="flex-1 overflow-y-auto p-2 text-sm">
+        {[...entries.undone].reverse().map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => history.jumpTo(entry.id)}
+            className="w-full text-left px-2 py-1 text-gray-400 hover:bg-gray-50"
+          >
+            <div className="line-through">{entry.label}</div>
+            <div className="text-xs">{new Date(entry.timestamp).toLocaleTimeString()}</div>
+          </button>
+        ))}
+        {[...entries.done].reverse().map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => history.jumpTo(entry.id)}
+            className={`w-full text-left px-2 py-1 hover:bg-gray-50 ${entry === latest ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700'}`}
+          >
+            <div>{entry.label}</div>
+            <div className="text-xs text-gray-400">{new Date(entry.timestamp).toLocaleTimeString()}</div>
+          </button>
+        ))}
+        {entries.done.length === 0 && entries.undone.length === 0 && (
+          <div className="px-2 py-4 text-gray-500">Edits and runs show up here.</div>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-gray-200 text-xs text-gray-500">
+        Ctrl+Z to undo, Ctrl+Shift+Z to redo
+      </div>
+    </div>
+  );
+}
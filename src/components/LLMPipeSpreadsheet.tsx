@@ -1,19 +1,32 @@
-import React, { useState, forwardRef, useImperativeHandle, useEffect } from 'react';
+import React, { useState, forwardRef, useImperativeHandle, useEffect, useRef } from 'react';
 import Spreadsheet from '@/components/Spreadsheet';
+import type { StepDefinition } from '@/lib/workflow';
 
 interface LLMPipeSpreadsheetProps {
   sourceData: Array<Array<{ value: string; row: number; col: number }>>;
   onDataChange?: (data: Array<Array<{ value: string; row: number; col: number }>>) => void;
+  // Told when the prompt is edited, so it gets saved too
+  onEdit?: () => void;
   headers: string[];
+  // Prompt to start from, e.g. for a step proposed by the assistant
+  initialPrompt?: string;
+  // Rows with outputs from an earlier run, e.g. when the step is restored from storage
+  initialData?: Array<Array<{ value: string; row: number; col: number }>>;
 }
 
 export const LLMPipeSpreadsheet = forwardRef<
-  { handlePipeToLLM: () => Promise<void> },
+  { handlePipeToLLM: () => Promise<void>; getPrompt: () => string; applyDefinition: (definition: StepDefinition) => void },
   LLMPipeSpreadsheetProps
->(({ sourceData, onDataChange, headers }, ref) => {
-  const [prompt, setPrompt] = useState('');
-  const [data, setData] = useState<Array<Array<{ value: string; row: number; col: number }>>>(sourceData);
+>(({ sourceData, onDataChange, onEdit, headers, initialPrompt, initialData }, ref) => {
+  const [prompt, setPrompt] = useState(initialPrompt || '');
+  const [data, setData] = useState<Array<Array<{ value: string; row: number; col: number }>>>(
+    initialData?.length ? initialData : sourceData
+  );
   const [isRunning, setIsRunning] = useState(false);
+  // Skip cached answers on the next run
+  const [forceRefresh, setForceRefresh] = useState(false);
+  // Outputs from initialData, kept until the next run or until the number of rows changes
+  const restoredOutputs = useRef<string[] | null>(initialData?.length ? initialData.map(row => row[1]?.value || '') : null);
 
   // Update local data when source data changes
   useEffect(() => {
@@ -33,11 +46,18 @@ export const LLMPipeSpreadsheet = forwardRef<
       ];
     });
 
-    setData(formattedData);
+    if (restoredOutputs.current?.length !== formattedData.length) {
+      restoredOutputs.current = null;
+    }
+    const restored = restoredOutputs.current;
+    setData(restored
+      ? formattedData.map((row, index) => [row[0], { ...row[1], value: restored[index] }])
+      : formattedData);
   }, [sourceData, headers]);
 
   const handlePipeToLLM = async () => {
     setIsRunning(true);
+    restoredOutputs.current = null;
     try {
       // Call your LLM API here with the prompt and input data
       const response = await fetch('/api/llm', {
@@ -53,24 +73,53 @@ export const LLMPipeSpreadsheet = forwardRef<
               return acc;
             }, {} as Record<string, string>);
           }),
-          prompt
+          prompt,
+          stream: true,
+          forceRefresh
         }),
       });
 
-      if (!response.ok) throw new Error('Failed to process through LLM');
-      
-      const { outputs } = await response.json();
-      
-      // Update the output column with LLM responses
-      const newData = data.map((row, index) => [
+      if (!response.ok || !response.body) throw new Error('Failed to process through LLM');
+
+      // Clear the output column, then fill each cell as its tokens arrive
+      const outputs: string[] = data.map(() => '');
+      const renderOutputs = () => data.map((row, index) => [
         row[0], // Keep the formatted input
-        { 
-          value: outputs[index]?.text || '', 
-          row: row[0].row, 
-          col: 1 
+        {
+          value: outputs[index] || '',
+          row: row[0].row,
+          col: 1
         }
       ]);
+      setData(renderOutputs());
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
 
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line);
+          if (event.type === 'token') {
+            outputs[event.index] = (outputs[event.index] || '') + event.text;
+          } else if (event.type === 'done') {
+            outputs[event.index] = event.text;
+          } else if (event.type === 'error') {
+            console.error(`Error processing row ${event.index} through LLM:`, event.error);
+          }
+        }
+        setData(renderOutputs());
+      }
+
+      const newData = renderOutputs();
       setData(newData);
       onDataChange?.(newData);
     } catch (error) {
@@ -80,7 +129,9 @@ export const LLMPipeSpreadsheet = forwardRef<
   };
 
   useImperativeHandle(ref, () => ({
-    handlePipeToLLM
+    handlePipeToLLM,
+    getPrompt: () => prompt,
+    applyDefinition: (definition: StepDefinition) => setPrompt(definition.prompt || '')
   }));
 
   return (
@@ -98,7 +149,10 @@ export const LLMPipeSpreadsheet = forwardRef<
         </label>
         <textarea
           value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
+          onChange={(e) => {
+            setPrompt(e.target.value);
+            onEdit?.();
+          }}
           placeholder="Configure how the LLM should process each row. Each input will be formatted as key-value pairs using the column headers from the source sheet."
           className="w-full h-32 px-3 py-2 border border-gray-200 
             focus:outline-none focus:ring-2 focus:ring-indigo-400/30
@@ -120,6 +174,15 @@ export const LLMPipeSpreadsheet = forwardRef<
           </svg>
           {isRunning ? 'Processing...' : 'Run LLM'}
         </button>
+        <label className="mt-2 text-sm text-gray-600 flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={forceRefresh}
+            onChange={(e) => setForceRefresh(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          Force refresh
+        </label>
       </div>
 
       <div className="p-4">
@@ -1,10 +1,33 @@
-import React, { useState, forwardRef, useImperativeHandle } from 'react';
-import Spreadsheet from '@/components/Spreadsheet';
+import React, { useState, useEffect, useRef, useId, useContext, forwardRef, useImperativeHandle } from 'react';
+import Spreadsheet, { CellData } from '@/components/Spreadsheet';
+import { ColumnSpec, defaultColumnSpec, specAt } from '@/lib/columns';
+import { RUN_MODES, RunMode, enrichRow, runModeFilter } from '@/lib/enrichment';
+import { HistoryContext } from '@/components/HistoryPanel';
+import { SINGLE_SHEET_NAME, Snapshot, SnapshotSheet } from '@/lib/snapshots';
+import type { StepDefinition } from '@/lib/workflow';
+import { CsvImport, CsvImportResult, isDelimitedFile } from '@/components/CsvImport';
+import Chat from '@/components/Chat';
+import type { SheetContext } from '@/lib/tools';
 
 interface SingleSpreadsheetProps {
+  // The workflow and step this sheet belongs to, which its chat conversation is stored with
+  workflowId?: string;
+  stepId?: string;
   onRowsChanged?: (rows: any[]) => void;
+  // Told about edits that leave the rows alone (column types, titles, prompts), so they get saved too
+  onEdit?: () => void;
+  // Called with the results of every find, cell or aggregation run, to be kept as a snapshot
+  onSnapshot?: (name: string, headers: string[], sheets: SnapshotSheet[]) => void;
   onExpandChange?: (expanded: boolean) => void;
   initialData?: Array<{ value: string; row: number; col: number }>;
+  // Rows to start from, e.g. when a step is restored
+  initialRows?: CellData[][];
+  // Headers, column types, aggregation prompt and title to start from, e.g. for a
+  // step proposed by the assistant or restored from storage
+  initialHeaders?: string[];
+  initialColumnSpecs?: ColumnSpec[];
+  initialPrompt?: string;
+  initialTitle?: string;
   aggregationCriteria?: string;
   isAggregation?: boolean;
   prevTableHeaders?: string[];
@@ -16,24 +39,52 @@ interface SingleSpreadsheetProps {
   }>;
 }
 
+// How many rows the chat assistant is shown
+const CHAT_CONTEXT_ROWS = 20;
+
+// What an undo or redo puts back
+type SheetState = {
+  data: CellData[][];
+  headers: string[];
+  columnSpecs: ColumnSpec[];
+};
+
 export const SingleSpreadsheet = forwardRef<
   { 
-    handleRunFind: () => Promise<void>; 
-    handleRunCells: () => Promise<void>; 
+    handleRunFind: (more?: boolean) => Promise<void>; 
+    handleRunCells: (mode?: RunMode) => Promise<void>; 
     handleRunAggregation: () => Promise<void>;
     getHeaders: () => string[];
+    getColumnSpecs: () => ColumnSpec[];
+    getPrompt: () => string | undefined;
+    getTitle: () => string;
+    getRows: () => CellData[][];
+    restoreSnapshot: (snapshot: Snapshot) => void;
+    applyDefinition: (definition: StepDefinition) => void;
   },
   SingleSpreadsheetProps
 >(({
+  workflowId,
+  stepId,
   onRowsChanged,
+  onEdit,
+  onSnapshot,
   onExpandChange,
   initialData,
+  initialRows,
+  initialHeaders,
+  initialColumnSpecs,
+  initialPrompt,
+  initialTitle,
   aggregationCriteria,
   isAggregation,
   prevTableHeaders,
   sourceSheets
 }, ref) => {
-  const [data, setData] = useState<Array<Array<{ value: string; row: number; col: number }>>>(() => {
+  const [data, setData] = useState<CellData[][]>(() => {
+    if (initialRows && initialRows.length > 0) {
+      return initialRows;
+    }
     // Initialize with a single empty row if no initial data
     if (!initialData) {
       return [[{ value: '', row: 0, col: 0 }]];
@@ -42,15 +93,21 @@ export const SingleSpreadsheet = forwardRef<
   });
 
   const [headers, setHeaders] = useState<string[]>(() => {
+    if (initialHeaders && initialHeaders.length > 0) {
+      return initialHeaders;
+    }
     if (isAggregation && sourceSheets?.[0]?.columns) {
       // Start with source columns for aggregation view
       return sourceSheets[0].columns;
     }
     return ['Input'];
   });
+  const [columnSpecs, setColumnSpecs] = useState<ColumnSpec[]>(() =>
+    initialColumnSpecs?.length ? initialColumnSpecs : headers.map(() => defaultColumnSpec())
+  );
 
   const [title, setTitle] = useState(
-    aggregationCriteria ? `Aggregate sheet ${aggregationCriteria}` : 'Datasheet'
+    initialTitle || (aggregationCriteria ? `Aggregate sheet ${aggregationCriteria}` : 'Datasheet')
   );
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
@@ -59,8 +116,19 @@ export const SingleSpreadsheet = forwardRef<
   const [isRunningAggregation, setIsRunningAggregation] = useState(false);
   const [isRunningFind, setIsRunningFind] = useState(false);
   const [isRunningCells, setIsRunningCells] = useState(false);
-  const [aggregationPrompt, setAggregationPrompt] = useState('');
+  const [aggregationPrompt, setAggregationPrompt] = useState(initialPrompt || '');
   const [isLoading, setIsLoading] = useState(false);
+  // Skip cached answers on the next run
+  const [forceRefresh, setForceRefresh] = useState(false);
+  // Rows and columns picked for "Run Selected"
+  const [selectedRows, setSelectedRows] = useState<number[]>([]);
+  const [selectedCols, setSelectedCols] = useState<number[]>([]);
+  // Where the last find left off, so "Find More" can continue it
+  const [findCursor, setFindCursor] = useState<{ query: string; cursor: string } | null>(null);
+  // Open while importing a file; holds the file when one was dropped on the sheet
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
 
   useImperativeHandle(ref, () => ({
     handleRunFind,
@@ -72,7 +140,14 @@ export const SingleSpreadsheet = forwardRef<
         return headers;
       }
       return headers;
-    }
+    },
+    getColumnSpecs: () => columnSpecs,
+    // Only aggregation sheets take a prompt
+    getPrompt: () => isAggregation ? aggregationPrompt : undefined,
+    getTitle: () => title,
+    getRows: () => data,
+    restoreSnapshot,
+    applyDefinition
   }));
 
   // Update sourceSheets columns when headers change
@@ -82,6 +157,155 @@ export const SingleSpreadsheet = forwardRef<
     }
   };
 
+  const history = useContext(HistoryContext);
+  const sheetId = useId();
+  // Undo and redo run long after the render that recorded them, so they reach the parent through this
+  const onRowsChangedRef = useRef(onRowsChanged);
+  onRowsChangedRef.current = onRowsChanged;
+
+  const sheetState = (): SheetState => ({ data, headers, columnSpecs });
+
+  const restoreSheet = (state: SheetState) => {
+    setData(state.data);
+    setHeaders(state.headers);
+    updateSourceColumns(state.headers);
+    setColumnSpecs(state.columnSpecs);
+    setSelectedRows([]);
+    setSelectedCols([]);
+    onRowsChangedRef.current?.(state.data);
+  };
+
+  // Records a change already made, from the state before it and what it changed.
+  // Changes with the same merge key in a row (e.g. typing into one cell) become one entry.
+  const recordChange = (label: string, before: SheetState, change: Partial<SheetState>, mergeKey?: string) => {
+    const after = { ...before, ...change };
+    history?.push({
+      label: `${title}: ${label}`,
+      undo: () => restoreSheet(before),
+      redo: () => restoreSheet(after),
+      mergeKey: mergeKey && `${sheetId}:${mergeKey}`,
+      owner: sheetId
+    });
+  };
+
+  // A sheet that is removed, e.g. by undoing the step that added it, takes its changes with it
+  useEffect(() => () => history?.drop(sheetId), [history, sheetId]);
+
+  // Puts back a snapshot's rows and headers; columns it shares with the sheet keep their types
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    const before = sheetState();
+    const after: SheetState = {
+      data: (snapshot.sheets[0]?.rows || []) as CellData[][],
+      headers: snapshot.headers,
+      columnSpecs: snapshot.headers.map(header => columnSpecs[headers.indexOf(header)] || defaultColumnSpec())
+    };
+    if (after.data.length === 0) after.data = [headers.map((_, col) => ({ value: '', row: 0, col }))];
+    restoreSheet(after);
+    recordChange(`Restore "${snapshot.name}"`, before, after);
+  };
+
+  // The chat assistant can make several changes before the next render, so each
+  // one starts from where the last left the sheet rather than from this render
+  const latestState = useRef<SheetState>(sheetState());
+  latestState.current = sheetState();
+
+  const applyChatChange = (label: string, change: (state: SheetState) => SheetState) => {
+    const before = latestState.current;
+    const after = change(before);
+    latestState.current = after;
+    restoreSheet(after);
+    recordChange(label, before, after);
+  };
+
+  const emptyCell = (row: number, col: number): CellData => ({ value: '', row, col });
+
+  // Headers beyond the current ones become empty columns; missing ones drop theirs
+  const handleChatUpdateHeaders = (newHeaders: string[]) => applyChatChange('Assistant updated headers', state => ({
+    data: state.data.map((row, rowIndex) => newHeaders.map((_, col) => row[col] || emptyCell(rowIndex, col))),
+    headers: newHeaders,
+    columnSpecs: newHeaders.map((_, col) => state.columnSpecs[col] || defaultColumnSpec())
+  }));
+
+  const handleChatAddRows = (values: string[]) => applyChatChange(`Assistant added ${values.length} rows`, state => ({
+    ...state,
+    data: [
+      ...state.data,
+      ...values.map((value, index) => state.headers.map((_, col) =>
+        ({ ...emptyCell(state.data.length + index, col), value: col === 0 ? value : '' })
+      ))
+    ]
+  }));
+
+  const handleChatDeleteRows = (rows: number[]) => applyChatChange(`Assistant deleted ${rows.length} rows`, state => ({
+    ...state,
+    data: state.data
+      .filter((_, rowIndex) => !rows.includes(rowIndex))
+      .map((row, rowIndex) => row.map(cell => ({ ...cell, row: rowIndex })))
+  }));
+
+  const handleChatAddColumns = (columns: string[]) => applyChatChange('Assistant added columns', state => {
+    const added = columns.filter(column => !state.headers.includes(column));
+    const newHeaders = [...state.headers, ...added];
+    return {
+      data: state.data.map((row, rowIndex) => newHeaders.map((_, col) => row[col] || emptyCell(rowIndex, col))),
+      headers: newHeaders,
+      columnSpecs: newHeaders.map((_, col) => state.columnSpecs[col] || defaultColumnSpec())
+    };
+  });
+
+  // The first column holds the rows' inputs and is never deleted
+  const handleChatDeleteColumns = (columns: string[]) => applyChatChange('Assistant deleted columns', state => {
+    const kept = state.headers.map((header, col) => col === 0 || !columns.includes(header));
+    return {
+      data: state.data.map(row => row.filter((_, col) => kept[col]).map((cell, col) => ({ ...cell, col }))),
+      headers: state.headers.filter((_, col) => kept[col]),
+      columnSpecs: state.headers.map((_, col) => state.columnSpecs[col] || defaultColumnSpec()).filter((_, col) => kept[col])
+    };
+  });
+
+  const chatContext = (): SheetContext => ({
+    headers,
+    rowCount: data.length,
+    rows: data.slice(0, CHAT_CONTEXT_ROWS).map(row => row.map(cell => cell?.value || ''))
+  });
+
+  // Set by the builder, which records the change itself along with the steps it touches
+  const applyDefinition = (definition: StepDefinition) => {
+    if (definition.rows) setData(definition.rows);
+    setHeaders(definition.headers);
+    updateSourceColumns(definition.headers);
+    setColumnSpecs(definition.columnSpecs);
+    if (isAggregation) setAggregationPrompt(definition.prompt || '');
+    setSelectedRows([]);
+    setSelectedCols([]);
+  };
+
+  // Imported values count as typed by hand, so runs keep them like pinned cells
+  const handleImport = (result: CsvImportResult) => {
+    const before = sheetState();
+    const keptRows = result.mode === 'append' ? data.filter(row => row.some(cell => cell.value)) : [];
+    const newData: CellData[][] = [
+      ...keptRows.map(row => result.headers.map((_, col) => row[col] || { value: '', row: 0, col })),
+      ...result.rows.map(values => values.map((value, col) => ({ value, row: 0, col, pinned: col > 0 && value !== '' })))
+    ].map((row, rowIndex) => row.map(cell => ({ ...cell, row: rowIndex })));
+
+    const after: SheetState = {
+      data: newData.length > 0 ? newData : [result.headers.map((_, col) => ({ value: '', row: 0, col }))],
+      headers: result.headers,
+      columnSpecs: result.headers.map((_, i) => columnSpecs[i] || defaultColumnSpec())
+    };
+    restoreSheet(after);
+    recordChange(`Import ${result.fileName}`, before, after);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    if (isAggregation || !file || !isDelimitedFile(file)) return;
+    e.preventDefault();
+    setImportFile(file);
+    setIsImportOpen(true);
+  };
+
   const handleHeaderChange = (colIndex: number, value: string) => {
     const newHeaders = [...headers];
     newHeaders[colIndex] = value;
@@ -96,12 +320,29 @@ export const SingleSpreadsheet = forwardRef<
       }));
     });
     onRowsChanged?.(newData);
+    recordChange(`Rename column ${colIndex + 1}`, sheetState(), { headers: newHeaders }, `header:${colIndex}`);
   };
 
+  const handleColumnSpecChange = (colIndex: number, spec: ColumnSpec) => {
+    const newSpecs = headers.map((_, i) => columnSpecs[i] || defaultColumnSpec());
+    newSpecs[colIndex] = spec;
+    setColumnSpecs(newSpecs);
+    onEdit?.();
+    recordChange(`Change column "${headers[colIndex]}"`, sheetState(), { columnSpecs: newSpecs }, `spec:${colIndex}`);
+  };
+
+  // Column specs for the enrichment columns, keyed by header as the runCells API expects
+  const columnSpecsByHeader = () => headers.slice(1).reduce((acc, header, index) => {
+    if (columnSpecs[index + 1]) acc[header] = columnSpecs[index + 1];
+    return acc;
+  }, {} as { [header: string]: ColumnSpec });
+
   const handleAddColumn = () => {
     const newHeaders = [...headers, `Column ${headers.length + 1}`];
+    const newSpecs = [...headers.map((_, i) => columnSpecs[i] || defaultColumnSpec()), defaultColumnSpec()];
     setHeaders(newHeaders);
     updateSourceColumns(newHeaders);
+    setColumnSpecs(newSpecs);
     
     // Add empty values for the new column in all existing rows
     const newData = data.map(row => [
@@ -110,14 +351,18 @@ export const SingleSpreadsheet = forwardRef<
     ]);
     setData(newData);
     onRowsChanged?.(newData);
+    recordChange('Add column', sheetState(), { data: newData, headers: newHeaders, columnSpecs: newSpecs });
   };
 
   const handleDeleteColumn = (colIndex: number) => {
     if (headers.length <= 1) return; // Don't delete the last column
     
     const newHeaders = headers.filter((_, i) => i !== colIndex);
+    const newSpecs = columnSpecs.filter((_, i) => i !== colIndex);
     setHeaders(newHeaders);
     updateSourceColumns(newHeaders);
+    setColumnSpecs(newSpecs);
+    setSelectedCols([]);
     
     // Remove the column from all rows
     const newData = data.map(row => 
@@ -126,10 +371,12 @@ export const SingleSpreadsheet = forwardRef<
     );
     setData(newData);
     onRowsChanged?.(newData);
+    recordChange(`Delete column "${headers[colIndex]}"`, sheetState(), { data: newData, headers: newHeaders, columnSpecs: newSpecs });
   };
 
   const handleRunAggregation = async () => {
     if (!isAggregation) return;
+    const before = sheetState();
     setIsRunningAggregation(true);
     setIsLoading(true);
 
@@ -153,6 +400,8 @@ export const SingleSpreadsheet = forwardRef<
             columns: headers, // Use current headers instead of sourceSheets columns
             prevTableHeaders: prevTableHeaders || [],
             aggregationPrompt,
+            columnSpecs: columnSpecsByHeader(),
+            forceRefresh,
             sheetName: `Sheet ${sheetIndex + 1}`,
             sheetIndex
           }),
@@ -195,6 +444,8 @@ export const SingleSpreadsheet = forwardRef<
 
       setData(newData);
       onRowsChanged?.(newData);
+      recordChange('Run aggregation', before, { data: newData });
+      onSnapshot?.('Run aggregation', headers, [{ name: SINGLE_SHEET_NAME, rows: newData }]);
     } catch (error) {
       console.error('Error running aggregation:', error);
     } finally {
@@ -205,18 +456,40 @@ export const SingleSpreadsheet = forwardRef<
 
   const handleCellChange = (row: number, col: number, value: string) => {
     const newData = [...data];
-    if (!newData[row]) {
-      newData[row] = Array(headers.length).fill(null).map((_, colIndex) => ({
+    // Copied rather than changed in place, so the history keeps the value it had
+    newData[row] = newData[row]
+      ? [...newData[row]]
+      : Array(headers.length).fill(null).map((_, colIndex) => ({
         value: '',
         row,
         col: colIndex
       }));
-    }
-    newData[row][col].value = value;
+    newData[row][col] = {
+      ...newData[row][col],
+      value,
+      // Hand-typed enrichment values are kept by later runs; clearing one lets runs fill it again
+      pinned: col > 0 && value !== '',
+      // The value no longer comes from the recorded sources
+      provenance: undefined,
+      runError: undefined
+    };
+    setData(newData);
+    onRowsChanged?.(newData);
+    recordChange(`Edit ${headers[col] || `column ${col + 1}`} in row ${row + 1}`, sheetState(), { data: newData }, `cell:${row}:${col}`);
+  };
+
+  const handleTogglePin = (row: number, col: number) => {
+    const newData = [...data];
+    newData[row] = [...newData[row]];
+    newData[row][col] = { ...newData[row][col], pinned: !newData[row][col].pinned };
     setData(newData);
     onRowsChanged?.(newData);
+    recordChange(`${newData[row][col].pinned ? 'Pin' : 'Unpin'} row ${row + 1} ${headers[col]}`, sheetState(), { data: newData });
   };
 
+  const toggleSelection = (selection: number[], index: number) =>
+    selection.includes(index) ? selection.filter(i => i !== index) : [...selection, index];
+
   const handleAddRow = () => {
     const newRow = headers.map((_, colIndex) => ({
       value: '',
@@ -224,6 +497,8 @@ export const SingleSpreadsheet = forwardRef<
       col: colIndex
     }));
     setData([...data, newRow]);
+    onRowsChanged?.([...data, newRow]);
+    recordChange('Add row', sheetState(), { data: [...data, newRow] });
   };
 
   const handleDeleteRow = (rowIndex: number) => {
@@ -232,6 +507,9 @@ export const SingleSpreadsheet = forwardRef<
         row.map(cell => ({ ...cell, row: newRowIndex }))
       );
     setData(newData);
+    setSelectedRows([]);
+    onRowsChanged?.(newData);
+    recordChange(`Delete row ${rowIndex + 1}`, sheetState(), { data: newData });
   };
 
   const handlePipeToLLM = async () => {
@@ -307,11 +585,19 @@ export const SingleSpreadsheet = forwardRef<
     }
   };
 
-  const handleRunFind = async () => {
+  // A fresh find replaces the rows; "more" continues the last find and appends
+  // what it returns, leaving out entities already in the sheet
+  const handleRunFind = async (more = false) => {
     if (isRunningFind) return;
+    const cursor = more && findCursor?.query === headers[0] ? findCursor.cursor : undefined;
+    if (more && !cursor) return;
+    const before = sheetState();
     setIsRunningFind(true);
     setIsLoading(true);
     try {
+      const keptRows = cursor ? data.filter(row => row.some(cell => cell.value)) : [];
+      // Columns marked to be filled by the search itself
+      const findColumns = headers.filter((_, colIndex) => colIndex > 0 && specAt(columnSpecs, colIndex).fromFind);
       const response = await fetch('/api/findall', {
         method: 'POST',
         headers: {
@@ -319,13 +605,19 @@ export const SingleSpreadsheet = forwardRef<
         },
         body: JSON.stringify({
           query: headers[0],
-          sheet_level: true
+          sheet_level: true,
+          forceRefresh,
+          cursor,
+          exclude: keptRows.map(row => row[0]?.value).filter(Boolean),
+          columns: findColumns,
+          columnSpecs: columnSpecsByHeader()
         }),
       });
 
       if (!response.ok) throw new Error('Failed to run search');
       
-      const { results } = await response.json();
+      const { results, attributes, provenance, nextCursor } = await response.json();
+      setFindCursor(nextCursor ? { query: headers[0], cursor: nextCursor } : null);
       
       if (!results || !Array.isArray(results) || results.length === 0) {
         console.warn('No results found');
@@ -333,17 +625,24 @@ export const SingleSpreadsheet = forwardRef<
       }
       
       // Update all rows with the results
-      const updates = results.map((result: string, index: number) => {
-        const newRow = headers.map((_, colIndex) => ({
-          value: colIndex === 0 ? result : '',
-          row: index,
-          col: colIndex
-        }));
-        return newRow;
-      });
+      const updates = [
+        ...keptRows,
+        ...results.map((result: string, index: number) => headers.map((header, colIndex) => {
+          const value = colIndex === 0 ? result : attributes?.[index]?.[header] || '';
+          return {
+            value,
+            row: 0,
+            col: colIndex,
+            provenance: value ? provenance : undefined
+          };
+        }))
+      ].map((row, rowIndex) => row.map(cell => ({ ...cell, row: rowIndex })));
 
       setData(updates);
+      if (!cursor) setSelectedRows([]);
       onRowsChanged?.(updates);
+      recordChange(cursor ? 'Find more' : 'Find all', before, { data: updates });
+      onSnapshot?.(cursor ? 'Find more' : 'Find all', headers, [{ name: SINGLE_SHEET_NAME, rows: updates }]);
     } catch (error) {
       console.error('Error running search:', error);
     } finally {
@@ -353,51 +652,36 @@ export const SingleSpreadsheet = forwardRef<
     }
   };
 
-  const handleRunCells = async () => {
+  // Runs on the sheet as it stands, or as the chat assistant's changes have just left it
+  const handleRunCells = async (mode: RunMode = 'all', state: SheetState = sheetState()) => {
     if (isRunningCells) return;
+    const before = state;
+    const { headers, columnSpecs } = state;
     setIsRunningCells(true);
     setIsLoading(true);
     try {
       // For each row, make a runCells API call
-      const promises = data.map(async (row, rowIndex) => {
+      const promises = state.data.map(async (row, rowIndex): Promise<CellData[]> => {
         const firstColumnCell = row.find(cell => cell.col === 0);
         if (!firstColumnCell?.value) return row; // Return unchanged row if no input
-
-        // Create columns object from headers, excluding the first column
-        const columns = headers.slice(1).reduce((acc, header, index) => {
-          acc[header] = row[index + 1]?.value || ''; // Use existing value or empty string
-          return acc;
-        }, {} as { [key: string]: string });
+        if (mode === 'selected' && selectedRows.length > 0 && !selectedRows.includes(rowIndex)) return row;
 
         try {
-          const response = await fetch('/api/runCells', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              input: firstColumnCell.value,
-              columns
-            }),
+          // Columns that depend on others run after them, seeing their values
+          const { values, errors, inputsKeys, provenance } = await enrichRow(firstColumnCell.value, headers, columnSpecs, row, {
+            forceRefresh,
+            shouldRun: runModeFilter(mode, headers, row, selectedCols)
           });
 
-          if (!response.ok) throw new Error('Failed to run cells');
-          
-          const responseData = await response.json();
-          
-          // Update the row with results
-          if (responseData.success && responseData.results) {
-            return [
-              // Keep the first column unchanged
-              { value: firstColumnCell.value, row: rowIndex, col: 0 },
-              // Map the remaining columns by their header names
-              ...headers.slice(1).map((header, colIndex) => ({
-                value: responseData.results[header] || '',
-                row: rowIndex,
-                col: colIndex + 1
-              }))
-            ];
-          }
+          return [
+            // Keep the first column unchanged
+            { ...firstColumnCell, row: rowIndex, col: 0 },
+            // Map the remaining columns by their header names, keeping any that didn't run
+            // or whose value was rejected, which is shown on the cell
+            ...headers.slice(1).map((header, colIndex) => header in values
+              ? { value: values[header], row: rowIndex, col: colIndex + 1, inputsKey: inputsKeys[header], provenance: provenance[header] }
+              : { ...(row[colIndex + 1] || { value: '' }), row: rowIndex, col: colIndex + 1, runError: errors[header] ?? row[colIndex + 1]?.runError })
+          ];
         } catch (error) {
           console.error(`Error running cells for row ${rowIndex}:`, error);
         }
@@ -405,8 +689,11 @@ export const SingleSpreadsheet = forwardRef<
       });
 
       const newData = await Promise.all(promises);
-      setData(newData.filter(Boolean) as Array<Array<{ value: string; row: number; col: number }>>);
+      latestState.current = { ...state, data: newData };
+      setData(newData);
       onRowsChanged?.(newData);
+      recordChange(`Run cells (${mode})`, before, { data: newData });
+      onSnapshot?.(`Run cells (${mode})`, headers, [{ name: SINGLE_SHEET_NAME, rows: newData }]);
     } catch (error) {
       console.error('Error running cells:', error);
     } finally {
@@ -417,7 +704,12 @@ export const SingleSpreadsheet = forwardRef<
   };
 
   return (
-    <div className={`
+    <div
+      onDragOver={(e) => {
+        if (!isAggregation && e.dataTransfer.types.includes('Files')) e.preventDefault();
+      }}
+      onDrop={handleDrop}
+      className={`
       ${isExpanded 
         ? 'fixed inset-0 !pointer-events-auto z-[99999] bg-gray-50/80' 
         : 'relative w-full h-[300px]'}
@@ -433,7 +725,10 @@ export const SingleSpreadsheet = forwardRef<
               <input
                 type="text"
                 value={title}
-                onChange={(e) => setTitle(e.target.value)}
+                onChange={(e) => {
+                  setTitle(e.target.value);
+                  onEdit?.();
+                }}
                 onBlur={() => setIsEditingTitle(false)}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter') {
@@ -481,6 +776,17 @@ export const SingleSpreadsheet = forwardRef<
                 </>
               )}
             </button>
+            {isAggregation && (
+              <label className="px-2 text-sm text-gray-600 flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={forceRefresh}
+                  onChange={(e) => setForceRefresh(e.target.checked)}
+                  className="accent-indigo-500"
+                />
+                Force refresh
+              </label>
+            )}
             {isAggregation && (
               <button
                 onClick={handleRunAggregation}
@@ -499,6 +805,32 @@ export const SingleSpreadsheet = forwardRef<
                 {isRunningAggregation ? 'Running...' : 'Run Aggregation'}
               </button>
             )}
+            <button
+              onClick={() => setIsChatOpen(!isChatOpen)}
+              className="px-4 py-2 text-gray-600 font-medium
+                hover:bg-gray-50 transition-colors duration-150 flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+              </svg>
+              Chat
+            </button>
+            {!isAggregation && (
+              <button
+                onClick={() => {
+                  setImportFile(null);
+                  setIsImportOpen(true);
+                }}
+                className="px-4 py-2 text-gray-600 font-medium
+                  hover:bg-gray-50 transition-colors duration-150 flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                    d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M12 4v12m0 0l-4-4m4 4l4-4" />
+                </svg>
+                Import
+              </button>
+            )}
             {!isAggregation && (
                 <div className="relative">
                 <button
@@ -517,7 +849,7 @@ export const SingleSpreadsheet = forwardRef<
                 {showRunDropdown && (
                     <div className="absolute right-0 mt-2 w-48 bg-white shadow-lg border border-gray-200 py-1 z-[103]">
                     <button
-                        onClick={handleRunFind}
+                        onClick={() => handleRunFind()}
                         className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-50 
                         transition-colors duration-150 flex items-center gap-2"
                     >
@@ -527,15 +859,42 @@ export const SingleSpreadsheet = forwardRef<
                         Run Find
                     </button>
                     <button
-                        onClick={handleRunCells}
+                        onClick={() => handleRunFind(true)}
+                        disabled={findCursor?.query !== headers[0]}
                         className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-50 
-                        transition-colors duration-150 flex items-center gap-2"
+                        transition-colors duration-150 flex items-center gap-2
+                        disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                        </svg>
+                        Find More
+                    </button>
+                    {RUN_MODES.map(({ mode, label }) => (
+                    <button
+                        key={mode}
+                        onClick={() => handleRunCells(mode)}
+                        disabled={mode === 'selected' && selectedRows.length === 0 && selectedCols.length === 0}
+                        className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-50 
+                        transition-colors duration-150 flex items-center gap-2
+                        disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7h16M4 12h16M4 17h7" />
                         </svg>
-                        Run Cells
+                        {label}
                     </button>
+                    ))}
+                    <label className="w-full px-4 py-2 text-gray-700 border-t border-gray-100
+                      flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={forceRefresh}
+                        onChange={(e) => setForceRefresh(e.target.checked)}
+                        className="accent-indigo-500"
+                      />
+                      Force refresh
+                    </label>
                     </div>
                 )}
                 </div>
@@ -559,7 +918,10 @@ export const SingleSpreadsheet = forwardRef<
           <div className="p-4 border-b border-gray-200/80">
             <textarea
               value={aggregationPrompt}
-              onChange={(e) => setAggregationPrompt(e.target.value)}
+              onChange={(e) => {
+                setAggregationPrompt(e.target.value);
+                onEdit?.();
+              }}
               placeholder="Describe how you want to aggregate the data from the previous sheets. Each sheet will be maps to a single row."
               className="w-full h-16 px-3 py-2 border border-gray-200 
                 focus:outline-none focus:ring-2 focus:ring-indigo-400/30
@@ -584,9 +946,40 @@ export const SingleSpreadsheet = forwardRef<
             onDeleteRow={handleDeleteRow}
             firstColumnWidth="min-w-[8rem] max-w-[8rem]"
             isLoading={isLoading}
+            columnSpecs={columnSpecs}
+            onColumnSpecChange={handleColumnSpecChange}
+            onTogglePin={handleTogglePin}
+            selectedRows={selectedRows}
+            selectedCols={selectedCols}
+            onToggleRowSelection={(rowIndex) => setSelectedRows(toggleSelection(selectedRows, rowIndex))}
+            onToggleColumnSelection={(colIndex) => setSelectedCols(toggleSelection(selectedCols, colIndex))}
           />
         </div>
       </div>
+      {isImportOpen && (
+        <CsvImport
+          sheetHeaders={headers}
+          initialFile={importFile}
+          onImport={handleImport}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+      {isChatOpen && (
+        <div className="fixed right-0 top-0 w-96 h-screen shadow-xl border-l border-gray-200/80 z-[100000]">
+          <Chat
+            onClose={() => setIsChatOpen(false)}
+            workflowId={workflowId}
+            stepId={stepId}
+            context={chatContext()}
+            onUpdateHeaders={handleChatUpdateHeaders}
+            onAddRows={handleChatAddRows}
+            onDeleteRows={handleChatDeleteRows}
+            onAddColumns={handleChatAddColumns}
+            onDeleteColumns={handleChatDeleteColumns}
+            onRunCells={mode => handleRunCells(mode, latestState.current)}
+          />
+        </div>
+      )}
     </div>
   );
 }); 
\ No newline at end of file
@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { CellDiff, CellStatus, Snapshot, SnapshotSummary, diffSnapshots } from '@/lib/snapshots';
+
+interface SnapshotViewerProps {
+  workflowId: string;
+  stepId: string;
+  title: string;
+  onRestore: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}
+
+const CELL_CLASSES: { [status in CellStatus]: string } = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-700 line-through',
+  changed: 'bg-amber-50 text-amber-800',
+  unchanged: 'text-gray-500'
+};
+
+const renderCell = (cell: CellDiff) => {
+  if (cell.status === 'changed') {
+    return (
+      <>
+        <span className="line-through text-gray-400">{cell.before}</span>
+        {' → '}
+        {cell.after}
+      </>
+    );
+  }
+  return cell.status === 'removed' ? cell.before : cell.after;
+};
+
+// A step's snapshots, one per run, with what changed between any two of them
+export function SnapshotViewer({ workflowId, stepId, title, onRestore, onClose }: SnapshotViewerProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  // Full snapshots, loaded as they are picked
+  const [loaded, setLoaded] = useState<{ [id: string]: Snapshot }>({});
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/workflows/${workflowId}/snapshots`;
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      const response = await fetch(`${baseUrl}?stepId=${encodeURIComponent(stepId)}`);
+      if (!response.ok) throw new Error('Failed to load snapshots');
+      const data = await response.json();
+      setSnapshots(data.snapshots);
+      return data.snapshots as SnapshotSummary[];
+    } catch (error) {
+      console.error('Error loading snapshots:', error);
+      setError('Could not load the snapshots.');
+      return [];
+    }
+  }, [baseUrl, stepId]);
+
+  // Compares the latest run with the one before it to start with
+  useEffect(() => {
+    loadSnapshots().then(list => {
+      setToId(list[list.length - 1]?.id || '');
+      setFromId(list[list.length - 2]?.id || '');
+    });
+  }, [loadSnapshots]);
+
+  // Read through a ref, so loading one snapshot doesn't make a new loader and rerun the effect below
+  const loadedRef = useRef(loaded);
+  loadedRef.current = loaded;
+
+  const loadSnapshot = useCallback(async (id: string): Promise<Snapshot | undefined> => {
+    if (loadedRef.current[id]) return loadedRef.current[id];
+    try {
+      const response = await fetch(`${baseUrl}/${id}`);
+      if (!response.ok) throw new Error(`Failed to load snapshot ${id}`);
+      const { snapshot } = await response.json();
+      setLoaded(current => ({ ...current, [id]: snapshot }));
+      return snapshot;
+    } catch (error) {
+      console.error('Error loading snapshot:', error);
+      setError('Could not load that snapshot.');
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    [fromId, toId].filter(Boolean).forEach(loadSnapshot);
+  }, [fromId, toId, loadSnapshot]);
+
+  const handleRestore = async (summary: SnapshotSummary) => {
+    const snapshot = await loadSnapshot(summary.id);
+    if (!snapshot) return;
+    onRestore(snapshot);
+    onClose();
+  };
+
+  const handleRename = async (summary: SnapshotSummary) => {
+    setEditingId(null);
+    if (!editingName.trim() || editingName.trim() === summary.name) return;
+    try {
+      const response = await fetch(`${baseUrl}/${summary.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: editingName }),
+      });
+      if (!response.ok) throw new Error('Failed to rename snapshot');
+      const { snapshot } = await response.json();
+      setLoaded(current => current[snapshot.id] ? { ...current, [snapshot.id]: snapshot } : current);
+    } catch (error) {
+      console.error('Error renaming snapshot:', error);
+      setError('That snapshot could not be renamed.');
+    }
+    loadSnapshots();
+  };
+
+  const handleDelete = async (summary: SnapshotSummary) => {
+    if (!confirm(`Delete the snapshot "${summary.name}"?`)) return;
+    try {
+      const response = await fetch(`${baseUrl}/${summary.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete snapshot');
+    } catch (error) {
+      console.error('Error deleting snapshot:', error);
+      setError('That snapshot could not be deleted.');
+    }
+    if (fromId === summary.id) setFromId('');
+    if (toId === summary.id) setToId('');
+    loadSnapshots();
+  };
+
+  const from = loaded[fromId];
+  const to = loaded[toId];
+  const diff = from && to ? diffSnapshots(from, to) : [];
+  const count = (status: CellStatus) => diff.reduce((sum, sheet) =>
+    sum + sheet.rows.reduce((rowSum, row) => rowSum + row.cells.filter(cell => cell.status === status).length, 0), 0);
+
+  const snapshotLabel = (summary: SnapshotSummary) =>
+    `${summary.name} (${new Date(summary.createdAt).toLocaleString()})`;
+
+  return (
+    <div className="fixed inset-0 z-[100000] bg-gray-900/30 flex items-center justify-center p-8">
+      <div className="bg-white w-full max-w-[1100px] max-h-full flex flex-col shadow-xl border border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-800">Snapshots of {title}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 text-gray-600
+              hover:text-gray-900 transition-colors duration-150"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 bg-red-50 border-b border-red-200 text-red-700 text-sm">{error}</div>
+        )}
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Newest first */}
+          <div className="w-72 shrink-0 border-r border-gray-200 overflow-y-auto text-sm">
+            {[...snapshots].reverse().map(summary => (
+              <div key={summary.id} className="px-4 py-2 border-b border-gray-100">
+                {editingId === summary.id ? (
+                  <input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={() => handleRename(summary)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(summary);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full px-2 py-1 border border-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
+                  />
+                ) : (
+                  <div className="font-medium text-gray-800">{summary.name}</div>
+                )}
+                <div className="text-xs text-gray-500">
+                  {new Date(summary.createdAt).toLocaleString()} · {summary.rowCount} rows
+                </div>
+                <div className="flex gap-3 mt-1 text-xs text-gray-600">
+                  <button onClick={() => setFromId(summary.id)} className="hover:text-indigo-600">Compare from</button>
+                  <button onClick={() => setToId(summary.id)} className="hover:text-indigo-600">to</button>
+                  <button
+                    onClick={() => {
+                      setEditingId(summary.id);
+                      setEditingName(summary.name);
+                    }}
+                    className="hover:text-indigo-600"
+                  >
+                    Rename
+                  </button>
+                  <button onClick={() => handleRestore(summary)} className="hover:text-indigo-600">Restore</button>
+                  <button onClick={() => handleDelete(summary)} className="hover:text-red-600">Delete</button>
+                </div>
+              </div>
+            ))}
+            {snapshots.length === 0 && (
+              <div className="px-4 py-8 text-gray-500">Each find or cell run of this step leaves a snapshot here.</div>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-auto p-4 flex flex-col gap-4 text-sm">
+            <div className="flex items-center gap-2 text-gray-700">
+              <select
+                value={fromId}
+                onChange={(e) => setFromId(e.target.value)}
+                className="px-2 py-1 border border-gray-200 bg-white"
+              >
+                <option value="">Compare from…</option>
+                {snapshots.map(summary => <option key={summary.id} value={summary.id}>{snapshotLabel(summary)}</option>)}
+              </select>
+              <span>to</span>
+              <select
+                value={toId}
+                onChange={(e) => setToId(e.target.value)}
+                className="px-2 py-1 border border-gray-200 bg-white"
+              >
+                <option value="">Compare to…</option>
+                {snapshots.map(summary => <option key={summary.id} value={summary.id}>{snapshotLabel(summary)}</option>)}
+              </select>
+              <label className="ml-auto flex items-center gap-2 text-gray-600">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                Show unchanged rows
+              </label>
+            </div>
+
+            {from && to ? (
+              <>
+                <div className="flex gap-4 text-xs">
+                  <span className="px-2 py-1 bg-green-50 text-green-800">{count('added')} added</span>
+                  <span className="px-2 py-1 bg-amber-50 text-amber-800">{count('changed')} changed</span>
+                  <span className="px-2 py-1 bg-red-50 text-red-700">{count('removed')} removed</span>
+                </div>
+                {diff.map(sheet => {
+                  const rows = sheet.rows.filter(row => showUnchanged || row.status !== 'unchanged');
+                  if (!showUnchanged && sheet.status === 'unchanged') return null;
+                  return (
+                    <div key={sheet.name} className="border border-gray-200">
+                      <div className={`px-3 py-2 font-medium border-b border-gray-200 ${CELL_CLASSES[sheet.status]}`}>
+                        {sheet.name}
+                        {sheet.status !== 'changed' && sheet.status !== 'unchanged' && ` (sheet ${sheet.status})`}
+                      </div>
+                      <table className="w-full">
+                        <thead className="bg-gray-50 text-left text-gray-600">
+                          <tr>
+                            {sheet.headers.map(header => <th key={header} className="px-3 py-1 font-medium">{header}</th>)}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {rows.map(row => (
+                            <tr key={row.key} className="border-t border-gray-100">
+                              {row.cells.map((cell, colIndex) => (
+                                <td key={colIndex} className={`px-3 py-1 align-top ${CELL_CLASSES[row.status === 'unchanged' ? 'unchanged' : cell.status]}`}>
+                                  {renderCell(cell)}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  );
+                })}
+                {diff.every(sheet => sheet.status === 'unchanged') && !showUnchanged && (
+                  <div className="text-gray-500">Nothing changed between these snapshots.</div>
+                )}
+              </>
+            ) : (
+              <div className="text-gray-500">Pick two snapshots to see what changed between them.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
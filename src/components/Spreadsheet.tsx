@@ -1,11 +1,21 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { CellProvenance } from '@/lib/provenance';
+import { COLUMN_TYPES, ColumnSpec, ColumnType, cellError, columnDependencies, dependencyLevels, findHeader, renderTemplate, rowContext, specAt, splitList, templateReferences } from '@/lib/columns';
 
-interface CellData {
+export interface CellData {
   value: string;
   row: number;
   col: number;
+  // Set when the value was typed by hand; runs never overwrite pinned cells
+  pinned?: boolean;
+  // Fingerprint of the inputs the value was produced from, see cellInputsKey
+  inputsKey?: string;
+  // Sources and task details for values filled by a run
+  provenance?: CellProvenance;
+  // Why the latest run's value for this cell was rejected; the cell keeps the value it had
+  runError?: string;
 }
 
 interface SpreadsheetProps {
@@ -27,6 +37,15 @@ interface SpreadsheetProps {
   firstColumnWidth?: string;
   multiline?: boolean;
   isLoading?: boolean;
+  // Declared type per column, by index; cells render and validate according to it
+  columnSpecs?: ColumnSpec[];
+  onColumnSpecChange?: (colIndex: number, spec: ColumnSpec) => void;
+  onTogglePin?: (row: number, col: number) => void;
+  // Rows and columns picked for "Run Selected"
+  selectedRows?: number[];
+  selectedCols?: number[];
+  onToggleRowSelection?: (rowIndex: number) => void;
+  onToggleColumnSelection?: (colIndex: number) => void;
 }
 
 export default function Spreadsheet({ 
@@ -47,7 +66,14 @@ export default function Spreadsheet({
   renderRowPrefix,
   firstColumnWidth,
   multiline,
-  isLoading
+  isLoading,
+  columnSpecs,
+  onColumnSpecChange,
+  onTogglePin,
+  selectedRows = [],
+  selectedCols = [],
+  onToggleRowSelection,
+  onToggleColumnSelection
 }: SpreadsheetProps) {
   const [editingHeader, setEditingHeader] = useState<number | null>(null);
   const [cornerValue, setCornerValue] = useState("ID");
@@ -59,6 +85,11 @@ export default function Spreadsheet({
     colIndex?: number;
     isHeader?: boolean;
   } | null>(null);
+  const [headerMenu, setHeaderMenu] = useState<number | null>(null);
+  // List cells show their items as chips until clicked
+  const [focusedCell, setFocusedCell] = useState<string | null>(null);
+  // Cell whose sources panel is open, as "row:col"
+  const [provenanceCell, setProvenanceCell] = useState<string | null>(null);
 
   const handleHeaderClick = (colIndex: number) => {
     setEditingHeader(colIndex);
@@ -141,11 +172,330 @@ export default function Spreadsheet({
       if (contextMenu && !(e.target as Element).closest('.context-menu')) {
         setContextMenu(null);
       }
+      if (headerMenu !== null && !(e.target as Element).closest('.header-menu')) {
+        setHeaderMenu(null);
+      }
+      if (provenanceCell !== null && !(e.target as Element).closest('.provenance-panel')) {
+        setProvenanceCell(null);
+      }
     };
 
     document.addEventListener('click', handleClickOutside);
     return () => document.removeEventListener('click', handleClickOutside);
-  }, [contextMenu]);
+  }, [contextMenu, headerMenu, provenanceCell]);
+
+  const updateColumnSpec = (colIndex: number, changes: Partial<ColumnSpec>) => {
+    onColumnSpecChange?.(colIndex, { ...specAt(columnSpecs, colIndex), ...changes });
+  };
+
+  const renderCellInput = (rowIndex: number, colIndex: number, value: string, error?: string) => {
+    const spec = specAt(columnSpecs, colIndex);
+    const cellKey = `${rowIndex}:${colIndex}`;
+    const handleChange = (newValue: string) => onCellChange?.(rowIndex, colIndex, newValue);
+    const inputClassName = `w-full h-full focus:outline-none focus:ring-1 focus:ring-indigo-400/30
+      text-gray-700 bg-transparent ${colIndex === 0 ? 'font-medium' : ''}
+      ${isLoading ? 'opacity-50' : ''}`;
+
+    // Values that don't fit the column stay editable as text so they can be fixed
+    const type: ColumnType = error ? 'text' : spec.type;
+
+    switch (type) {
+      case 'boolean':
+        return (
+          <div className="w-full h-full flex items-center justify-center">
+            <input
+              type="checkbox"
+              checked={value === 'true'}
+              onChange={(e) => handleChange(String(e.target.checked))}
+              className="accent-indigo-500"
+              disabled={isLoading}
+            />
+          </div>
+        );
+      case 'date':
+        return (
+          <input
+            type="date"
+            value={value}
+            onChange={(e) => handleChange(e.target.value)}
+            className={inputClassName}
+            disabled={isLoading}
+          />
+        );
+      case 'enum':
+        return (
+          <select
+            value={value}
+            onChange={(e) => handleChange(e.target.value)}
+            className={inputClassName}
+            disabled={isLoading}
+          >
+            <option value=""></option>
+            {(spec.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'number':
+        return (
+          <input
+            type="text"
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => handleChange(e.target.value)}
+            className={`${inputClassName} text-right tabular-nums`}
+            disabled={isLoading}
+          />
+        );
+      case 'list':
+        if (focusedCell !== cellKey && value) {
+          return (
+            <div
+              onClick={() => setFocusedCell(cellKey)}
+              className={`w-full h-full flex items-center gap-1 overflow-hidden cursor-text ${isLoading ? 'opacity-50' : ''}`}
+            >
+              {splitList(value).map((item, index) => (
+                <span key={index} className="px-1.5 py-0.5 text-xs bg-indigo-50 text-indigo-700 whitespace-nowrap">
+                  {item}
+                </span>
+              ))}
+            </div>
+          );
+        }
+        return (
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => handleChange(e.target.value)}
+            onBlur={() => setFocusedCell(null)}
+            placeholder="item; item"
+            autoFocus={focusedCell === cellKey}
+            className={inputClassName}
+            disabled={isLoading}
+          />
+        );
+      case 'url':
+        return (
+          <div className="w-full h-full flex items-center gap-1">
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => handleChange(e.target.value)}
+              className={`${inputClassName} text-indigo-600`}
+              disabled={isLoading}
+            />
+            {value && (
+              <a
+                href={value}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="shrink-0 text-gray-400 hover:text-indigo-600"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                </svg>
+              </a>
+            )}
+          </div>
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => handleChange(e.target.value)}
+            className={inputClassName}
+            disabled={isLoading}
+          />
+        );
+    }
+  };
+
+  const confidenceColor = (confidence?: string) => {
+    switch (confidence?.toLowerCase()) {
+      case 'high':
+        return 'bg-green-500';
+      case 'medium':
+        return 'bg-amber-400';
+      case 'low':
+        return 'bg-red-400';
+      default:
+        return 'bg-gray-300';
+    }
+  };
+
+  const describeProvenance = (provenance: CellProvenance) => [
+    `${provenance.sources.length} ${provenance.sources.length === 1 ? 'source' : 'sources'}`,
+    provenance.confidence && `${provenance.confidence} confidence`,
+    new Date(provenance.timestamp).toLocaleString()
+  ].filter(Boolean).join(' · ');
+
+  const renderProvenancePanel = (provenance: CellProvenance) => (
+    <div className="provenance-panel absolute right-0 top-full mt-1 w-80 max-h-80 overflow-y-auto bg-white
+      shadow-lg border border-gray-200 p-3 z-[110] text-xs text-left text-gray-600 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className={`w-2 h-2 rounded-full ${confidenceColor(provenance.confidence)}`} />
+        <span className="font-medium text-gray-700">
+          {provenance.confidence ? `${provenance.confidence} confidence` : 'Confidence not reported'}
+        </span>
+        <span className="ml-auto text-gray-400">{new Date(provenance.timestamp).toLocaleString()}</span>
+      </div>
+      {provenance.reasoning && (
+        <p className="whitespace-pre-wrap">{provenance.reasoning}</p>
+      )}
+      {provenance.sources.length > 0 ? (
+        <ul className="space-y-2">
+          {provenance.sources.map(url => (
+            <li key={url}>
+              <a href={url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline break-all">
+                {provenance.citations.find(citation => citation.url === url && citation.title)?.title || url}
+              </a>
+              {provenance.citations
+                .filter(citation => citation.url === url && citation.excerpt)
+                .map((citation, index) => (
+                  <blockquote key={index} className="mt-1 pl-2 border-l-2 border-gray-200 text-gray-500">
+                    {citation.excerpt}
+                  </blockquote>
+                ))}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-400">No sources reported</p>
+      )}
+      <div className="pt-2 border-t border-gray-100 text-gray-400 break-all">
+        {provenance.model} · task {provenance.taskId}
+        {provenance.executionId && ` · run ${provenance.executionId}`}
+      </div>
+    </div>
+  );
+
+  // Fills the column's instruction with the first row that has an input, flagging references to unknown columns
+  const renderTemplatePreview = (instruction: string) => {
+    const unknown = templateReferences(instruction).filter(name => findHeader(name, headers) === undefined);
+    const previewRow = data.find(row => row[0]?.value) || data[0] || [];
+
+    return (
+      <div className="text-xs">
+        <div className="text-gray-500">Preview</div>
+        <div className="mt-1 px-2 py-1 bg-gray-50 border border-gray-100 text-gray-700 whitespace-pre-wrap break-words">
+          {renderTemplate(instruction, rowContext(headers, previewRow))}
+        </div>
+        {unknown.length > 0 && (
+          <div className="mt-1 text-red-500">
+            Unknown {unknown.length === 1 ? 'column' : 'columns'}: {unknown.join(', ')}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Other enrichment columns this one can wait for; those its instruction references are always ticked
+  const renderDependencyPicker = (colIndex: number) => {
+    const spec = specAt(columnSpecs, colIndex);
+    const header = headers[colIndex];
+    const fromTemplate = templateReferences(spec.instruction || '').map(name => findHeader(name, headers));
+    const dependencies = columnDependencies(headers, columnSpecs)[header] || [];
+    const isBlocked = dependencyLevels(headers, columnSpecs).blocked.includes(header);
+    const candidates = headers.slice(1).filter((_, i) => i + 1 !== colIndex);
+
+    if (candidates.length === 0) return null;
+
+    return (
+      <div className="text-xs text-gray-500">
+        Runs after
+        <div className="mt-1 space-y-1">
+          {candidates.map(candidate => (
+            <label key={candidate} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={dependencies.includes(candidate)}
+                disabled={fromTemplate.includes(candidate)}
+                onChange={(e) => updateColumnSpec(colIndex, {
+                  dependsOn: e.target.checked
+                    ? [...(spec.dependsOn || []), candidate]
+                    : (spec.dependsOn || []).filter(name => name !== candidate)
+                })}
+                className="accent-indigo-500"
+              />
+              {candidate}
+            </label>
+          ))}
+        </div>
+        {isBlocked && (
+          <div className="mt-1 text-red-500">Circular dependency: this column can&apos;t run</div>
+        )}
+      </div>
+    );
+  };
+
+  const renderHeaderMenu = (colIndex: number) => {
+    const spec = specAt(columnSpecs, colIndex);
+
+    return (
+      <div className="header-menu absolute left-0 top-full mt-1 w-64 bg-white shadow-lg border border-gray-200
+        p-3 z-[110] text-left font-normal space-y-3 max-h-96 overflow-y-auto">
+        <label className="block text-xs text-gray-500">
+          Type
+          <select
+            value={spec.type}
+            onChange={(e) => updateColumnSpec(colIndex, { type: e.target.value as ColumnType })}
+            className="mt-1 w-full px-2 py-1 border border-gray-200 text-sm text-gray-700
+              focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
+          >
+            {COLUMN_TYPES.map(({ type, label }) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {spec.type === 'enum' && (
+          <label className="block text-xs text-gray-500">
+            Options (comma separated)
+            <input
+              type="text"
+              defaultValue={spec.options?.join(', ') || ''}
+              onBlur={(e) => updateColumnSpec(colIndex, {
+                options: e.target.value.split(',').map(option => option.trim()).filter(Boolean)
+              })}
+              className="mt-1 w-full px-2 py-1 border border-gray-200 text-sm text-gray-700
+                focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
+            />
+          </label>
+        )}
+        <label className="block text-xs text-gray-500">
+          Description
+          <textarea
+            value={spec.description || ''}
+            onChange={(e) => updateColumnSpec(colIndex, { description: e.target.value })}
+            placeholder="What this column should contain..."
+            className="mt-1 w-full h-16 px-2 py-1 border border-gray-200 text-sm text-gray-700
+              focus:outline-none focus:ring-2 focus:ring-indigo-400/30 resize-none"
+          />
+        </label>
+        <label className="block text-xs text-gray-500">
+          Instruction
+          <textarea
+            value={spec.instruction || ''}
+            onChange={(e) => updateColumnSpec(colIndex, { instruction: e.target.value })}
+            placeholder={`Find the CEO of {{${headers[0] || 'Company'}}}`}
+            className="mt-1 w-full h-16 px-2 py-1 border border-gray-200 text-sm text-gray-700
+              focus:outline-none focus:ring-2 focus:ring-indigo-400/30 resize-none"
+          />
+        </label>
+        {spec.instruction?.trim() && renderTemplatePreview(spec.instruction)}
+        {renderDependencyPicker(colIndex)}
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!spec.fromFind}
+            onChange={(e) => updateColumnSpec(colIndex, { fromFind: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          Fill from Run Find
+        </label>
+      </div>
+    );
+  };
 
   const LoadingSpinner = () => (
     <div className="absolute inset-0 flex items-center justify-center">
@@ -167,6 +517,11 @@ export default function Spreadsheet({
                 `}
               >
                 <div className="flex items-center h-full">
+                  {specAt(columnSpecs, index).type !== 'text' && (
+                    <span className="pl-2 text-[10px] uppercase tracking-wide text-indigo-400">
+                      {COLUMN_TYPES.find(({ type }) => type === specAt(columnSpecs, index).type)?.label}
+                    </span>
+                  )}
                   <div className="flex-1">
                     <input
                       type="text"
@@ -178,6 +533,29 @@ export default function Spreadsheet({
                         text-gray-700 font-medium placeholder-gray-400"
                     />
                   </div>
+                  {onToggleColumnSelection && index > 0 && (
+                    <input
+                      type="checkbox"
+                      checked={selectedCols.includes(index)}
+                      onChange={() => onToggleColumnSelection(index)}
+                      title="Select column for Run Selected"
+                      className={`${selectedCols.includes(index) ? '' : 'opacity-0 group-hover:opacity-100'} accent-indigo-500`}
+                    />
+                  )}
+                  {onColumnSpecChange && index > 0 && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setHeaderMenu(headerMenu === index ? null : index);
+                      }}
+                      className="header-menu opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-200
+                        text-gray-400 hover:text-gray-600 rounded transition-all duration-150"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </button>
+                  )}
                   {headers.length > 1 && (
                     <button
                       onClick={() => onDeleteColumn?.(index)}
@@ -190,6 +568,7 @@ export default function Spreadsheet({
                     </button>
                   )}
                 </div>
+                {headerMenu === index && renderHeaderMenu(index)}
               </th>
             ))}
             {/* Add Column Button */}
@@ -209,13 +588,22 @@ export default function Spreadsheet({
         <tbody>
           {data.map((row, rowIndex) => (
             <tr key={rowIndex} className="group">
-              {headers.map((_, colIndex) => (
+              {headers.map((_, colIndex) => {
+                const value = row[colIndex]?.value || '';
+                const error = multiline ? undefined : row[colIndex]?.runError || cellError(value, specAt(columnSpecs, colIndex));
+                const pinned = !!row[colIndex]?.pinned;
+                const provenance = row[colIndex]?.provenance;
+                const cellKey = `${rowIndex}:${colIndex}`;
+                const selected = selectedRows.includes(rowIndex) || selectedCols.includes(colIndex);
+                return (
                 <td
                   key={colIndex}
+                  title={error}
                   className={`
-                    ${colIndex === 0 ? firstColumnWidth || 'min-w-[12rem]' : 'w-48'} 
+                    group/cell ${colIndex === 0 ? firstColumnWidth || 'min-w-[12rem]' : 'w-48'} 
                     h-8 border border-gray-200 px-2 relative
                     ${colIndex === 0 ? 'bg-gray-50 sticky left-0 z-10' : ''}
+                    ${error ? 'bg-red-50 ring-1 ring-inset ring-red-300' : selected && colIndex > 0 ? 'bg-indigo-50/50' : ''}
                     ${multiline ? 'h-auto min-h-[8rem]' : 'h-8'}
                   `}
                 >
@@ -230,31 +618,60 @@ export default function Spreadsheet({
                     />
                   ) : (
                     <>
-                      <input
-                        type="text"
-                        value={row[colIndex]?.value || ''}
-                        onChange={(e) => onCellChange?.(rowIndex, colIndex, e.target.value)}
-                        className={`w-full h-full focus:outline-none focus:ring-1 focus:ring-indigo-400/30
-                          text-gray-700 bg-transparent ${colIndex === 0 ? 'font-medium' : ''}
-                          ${isLoading ? 'opacity-50' : ''}`}
-                        disabled={isLoading}
-                      />
+                      {renderCellInput(rowIndex, colIndex, value, error)}
+                      {onTogglePin && colIndex > 0 && (pinned || value) && (
+                        <button
+                          onClick={() => onTogglePin(rowIndex, colIndex)}
+                          title={pinned ? 'Pinned: runs keep this value. Click to unpin' : 'Pin so runs keep this value'}
+                          className={`absolute left-0.5 top-0.5 p-0.5 transition-opacity
+                            ${pinned ? 'text-amber-500' : 'opacity-0 group-hover/cell:opacity-100 text-gray-300 hover:text-gray-500'}`}
+                        >
+                          <svg className="w-2.5 h-2.5" fill={pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 3l5 5-4 1-4 4 1 5-2 2-5-5-4 4m5-9l-2-2 2-2 5 1 4-4" />
+                          </svg>
+                        </button>
+                      )}
+                      {provenance && value && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setProvenanceCell(provenanceCell === cellKey ? null : cellKey);
+                          }}
+                          title={describeProvenance(provenance)}
+                          className="provenance-panel absolute right-0.5 bottom-0.5 p-0.5"
+                        >
+                          <span className={`block w-1.5 h-1.5 rounded-full ${confidenceColor(provenance.confidence)}`} />
+                        </button>
+                      )}
+                      {provenance && provenanceCell === cellKey && renderProvenancePanel(provenance)}
                       {isLoading && <LoadingSpinner />}
                     </>
                   )}
                 </td>
-              ))}
+                );
+              })}
               <td className="w-12 h-8 border border-gray-200 p-0 sticky right-0 bg-white">
-                <button
-                  onClick={() => onDeleteRow?.(rowIndex)}
-                  className="opacity-0 group-hover:opacity-100 w-full h-full flex items-center 
-                    justify-center text-gray-400 hover:text-red-500 hover:bg-red-50 
-                    transition-all duration-150"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                </button>
+                <div className="w-full h-full flex items-center">
+                  {onToggleRowSelection && (
+                    <input
+                      type="checkbox"
+                      checked={selectedRows.includes(rowIndex)}
+                      onChange={() => onToggleRowSelection(rowIndex)}
+                      title="Select row for Run Selected"
+                      className={`ml-1 ${selectedRows.includes(rowIndex) ? '' : 'opacity-0 group-hover:opacity-100'} accent-indigo-500`}
+                    />
+                  )}
+                  <button
+                    onClick={() => onDeleteRow?.(rowIndex)}
+                    className="opacity-0 group-hover:opacity-100 flex-1 h-full flex items-center 
+                      justify-center text-gray-400 hover:text-red-500 hover:bg-red-50 
+                      transition-all duration-150"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
               </td>
             </tr>
           ))}
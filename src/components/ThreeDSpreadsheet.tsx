@@ -1,38 +1,154 @@
 'use client';
 
-import React, { useState, useEffect, forwardRef, useImperativeHandle } from 'react';
-import Spreadsheet from './Spreadsheet';
+import React, { useState, useEffect, useRef, useId, useContext, forwardRef, useImperativeHandle } from 'react';
+import Spreadsheet, { CellData } from './Spreadsheet';
+import { ColumnSpec, defaultColumnSpec, specAt } from '@/lib/columns';
+import { RUN_MODES, RunMode, enrichRow, runModeFilter } from '@/lib/enrichment';
+import { HistoryContext } from './HistoryPanel';
+import type { Snapshot, SnapshotSheet } from '@/lib/snapshots';
+import { StepDefinition, columnSources, remapRows } from '@/lib/workflow';
 
 interface ThreeDSpreadsheetProps {
   initialRows?: number;
   initialCols?: number;
   sourceData?: Array<Array<{ value: string; row: number; col: number }>>;
   isSidebarOpen?: boolean;
+  // Headers, column types and title to start from, e.g. for a step proposed by the
+  // assistant or restored from storage
+  initialHeaders?: string[];
+  initialColumnSpecs?: ColumnSpec[];
+  initialTitle?: string;
   data: Array<{ prevRow: Array<{ value: string; row: number; col: number }>; data: Array<{ value: string; row: number; col: number }[]> }>;
   onDataChange?: (data: Array<{ prevRow: Array<{ value: string; row: number; col: number }>; data: Array<{ value: string; row: number; col: number }[]> }>) => void;
+  // Told about edits that leave the rows alone (column types, titles, prompts), so they get saved too
+  onEdit?: () => void;
+  // Called with the results of every find or cell run, one sheet each, to be kept as a snapshot
+  onSnapshot?: (name: string, headers: string[], sheets: SnapshotSheet[]) => void;
 }
 
+// What an undo or redo puts back
+type SheetsState = {
+  sheetData: CellData[][][];
+  headers: string[];
+  columnSpecs: ColumnSpec[];
+};
+
 const ThreeDSpreadsheet = forwardRef<
   { 
-    handleRunFind: () => Promise<void>; 
-    handleRunCells: () => Promise<void>;
+    handleRunFind: (more?: boolean) => Promise<void>; 
+    handleRunCells: (mode?: RunMode) => Promise<void>;
     getHeaders: () => string[];
+    getColumnSpecs: () => ColumnSpec[];
+    getTitle: () => string;
+    restoreSnapshot: (snapshot: Snapshot) => void;
+    applyDefinition: (definition: StepDefinition) => void;
   },
   ThreeDSpreadsheetProps
->(({ data, onDataChange }, ref) => {
+>(({ data, onDataChange, onEdit, onSnapshot, initialHeaders, initialColumnSpecs, initialTitle }, ref) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [activeSheet, setActiveSheet] = useState<number | null>(null);
-  const [sheetData, setSheetData] = useState<Array<Array<Array<{ value: string; row: number; col: number }>>>>([]);
+  const [sheetData, setSheetData] = useState<CellData[][][]>([]);
   const [visibleRange, setVisibleRange] = useState({ start: 0, end: 2 }); // Track visible sheets
-  const [headers, setHeaders] = useState<string[]>(['Find all items']);
+  const [headers, setHeaders] = useState<string[]>(initialHeaders?.length ? initialHeaders : ['Find all items']);
+  // Shared by every sheet, like the headers
+  const [columnSpecs, setColumnSpecs] = useState<ColumnSpec[]>(() =>
+    initialColumnSpecs?.length ? initialColumnSpecs : headers.map(() => defaultColumnSpec())
+  );
   const [showRunDropdown, setShowRunDropdown] = useState(false);
-  const [title, setTitle] = useState('3D Spreadsheet');
+  const [title, setTitle] = useState(initialTitle || '3D Spreadsheet');
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [isRunningFind, setIsRunningFind] = useState(false);
   const [isRunningCells, setIsRunningCells] = useState(false);
   const [sheetNames, setSheetNames] = useState<string[]>([]);
   const [sidebarItems, setSidebarItems] = useState<string[]>([]);
   const [loadingSheets, setLoadingSheets] = useState<{ [key: number]: boolean }>({});
+  // Skip cached answers on the next run
+  const [forceRefresh, setForceRefresh] = useState(false);
+  // Rows picked for "Run Selected", per sheet; columns are shared like the headers
+  const [selectedRows, setSelectedRows] = useState<{ [sheetIndex: number]: number[] }>({});
+  const [selectedCols, setSelectedCols] = useState<number[]>([]);
+  const hasSelectedRows = Object.values(selectedRows).some(rows => rows.length > 0);
+  // Where each sheet's last find left off, so "Find More" can continue it
+  const [findCursors, setFindCursors] = useState<{ [sheetIndex: number]: { query: string; cursor: string } }>({});
+  const findQuery = (sheet: typeof data[number]) =>
+    `${headers[0]} for: ${sheet.prevRow.find(cell => cell.col === 0)?.value}`;
+  const canFindMore = data.some((sheet, sheetIndex) => findCursors[sheetIndex]?.query === findQuery(sheet));
+
+  const history = useContext(HistoryContext);
+  const sheetId = useId();
+  // Undo and redo run long after the render that recorded them, so they reach the
+  // parent, and the sheets it currently holds, through these
+  const onDataChangeRef = useRef(onDataChange);
+  onDataChangeRef.current = onDataChange;
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  const sheetsState = (): SheetsState => ({ sheetData, headers, columnSpecs });
+
+  const restoreSheets = (state: SheetsState) => {
+    setSheetData(state.sheetData);
+    setHeaders(state.headers);
+    setColumnSpecs(state.columnSpecs);
+    setSelectedRows({});
+    setSelectedCols([]);
+    onDataChangeRef.current?.(dataRef.current.map((item, idx) => ({
+      prevRow: item.prevRow,
+      data: state.sheetData[idx] || item.data
+    })));
+  };
+
+  // Records a change already made, from the state before it and what it changed.
+  // Changes with the same merge key in a row (e.g. typing into one cell) become one entry.
+  const recordChange = (label: string, before: SheetsState, change: Partial<SheetsState>, mergeKey?: string) => {
+    const after = { ...before, ...change };
+    history?.push({
+      label: `${title}: ${label}`,
+      undo: () => restoreSheets(before),
+      redo: () => restoreSheets(after),
+      mergeKey: mergeKey && `${sheetId}:${mergeKey}`,
+      owner: sheetId
+    });
+  };
+
+  // A sheet that is removed, e.g. by undoing the step that added it, takes its changes with it
+  useEffect(() => () => history?.drop(sheetId), [history, sheetId]);
+
+  const sheetName = (idx: number) => sheetNames[idx] || `Sheet ${idx + 1}`;
+
+  const snapshotSheets = (newSheetData: CellData[][][]): SnapshotSheet[] =>
+    newSheetData.map((rows, idx) => ({ name: sheetName(idx), rows }));
+
+  // Puts back a snapshot's headers and the rows of the sheets it has. A sheet is
+  // matched with the snapshot's sheet in the same place when that has its name,
+  // and otherwise with the first one of its name not yet taken, so sheets sharing
+  // a name ("Untitled Sheet") each get their own. Sheets the snapshot has no rows
+  // for have their columns moved under its headers; columns it shares with the
+  // sheets keep their types.
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    const before = sheetsState();
+    const sources = columnSources(headers, snapshot.headers);
+    const taken = new Set<number>();
+    const matchFor = (idx: number) => {
+      const match = snapshot.sheets[idx]?.name === sheetName(idx) && !taken.has(idx)
+        ? idx
+        : snapshot.sheets.findIndex((sheet, i) => !taken.has(i) && sheet.name === sheetName(idx));
+      if (match !== -1) taken.add(match);
+      return match;
+    };
+
+    const after: SheetsState = {
+      sheetData: data.map((_, idx) => {
+        const match = matchFor(idx);
+        return match !== -1
+          ? snapshot.sheets[match].rows as CellData[][]
+          : remapRows(sheetData[idx] || [], sources) as CellData[][];
+      }),
+      headers: snapshot.headers,
+      columnSpecs: sources.map(source => source === -1 ? defaultColumnSpec() : specAt(columnSpecs, source))
+    };
+    restoreSheets(after);
+    recordChange(`Restore "${snapshot.name}"`, before, after);
+  };
   
   // Initialize sheet data and names from source data
   useEffect(() => {
@@ -73,32 +189,39 @@ const ThreeDSpreadsheet = forwardRef<
     const newHeaders = [...headers];
     newHeaders[colIndex] = value;
     setHeaders(newHeaders);
+    onEdit?.();
+    recordChange(`Rename column ${colIndex + 1}`, sheetsState(), { headers: newHeaders }, `header:${colIndex}`);
+  };
+
+  const handleColumnSpecChange = (colIndex: number, spec: ColumnSpec) => {
+    const newSpecs = headers.map((_, i) => columnSpecs[i] || defaultColumnSpec());
+    newSpecs[colIndex] = spec;
+    setColumnSpecs(newSpecs);
+    onEdit?.();
+    recordChange(`Change column "${headers[colIndex]}"`, sheetsState(), { columnSpecs: newSpecs }, `spec:${colIndex}`);
   };
 
   const handleCellChange = (sheetIndex: number, row: number, col: number, value: string) => {
+    // Copied rather than changed in place, so the history keeps the value it had
     const newSheetData = [...sheetData];
-    
-    // Initialize sheet if it doesn't exist
-    if (!newSheetData[sheetIndex]) {
-      newSheetData[sheetIndex] = [];
-    }
-    
-    // Initialize row if it doesn't exist
-    if (!newSheetData[sheetIndex][row]) {
-      newSheetData[sheetIndex][row] = [];
-    }
-    
-    // Initialize cell if it doesn't exist
-    if (!newSheetData[sheetIndex][row][col]) {
-      newSheetData[sheetIndex][row][col] = {
-        value: '',
-        row,
-        col
-      };
-    }
-    
-    newSheetData[sheetIndex][row][col].value = value;
+    newSheetData[sheetIndex] = [...(newSheetData[sheetIndex] || [])];
+    newSheetData[sheetIndex][row] = [...(newSheetData[sheetIndex][row] || [])];
+    newSheetData[sheetIndex][row][col] = {
+      ...(newSheetData[sheetIndex][row][col] || { row, col }),
+      value,
+      // Hand-typed enrichment values are kept by later runs; clearing one lets runs fill it again
+      pinned: col > 0 && value !== '',
+      // The value no longer comes from the recorded sources
+      provenance: undefined,
+      runError: undefined
+    };
     setSheetData(newSheetData);
+    recordChange(
+      `Edit ${headers[col] || `column ${col + 1}`} in ${sheetNames[sheetIndex] || `sheet ${sheetIndex + 1}`} row ${row + 1}`,
+      sheetsState(),
+      { sheetData: newSheetData },
+      `cell:${sheetIndex}:${row}:${col}`
+    );
     
     // Call onDataChange with updated data
     if (onDataChange) {
@@ -115,6 +238,27 @@ const ThreeDSpreadsheet = forwardRef<
     }
   };
 
+  const handleTogglePin = (sheetIndex: number, row: number, col: number) => {
+    const newSheetData = [...sheetData];
+    const cell = newSheetData[sheetIndex][row][col];
+    newSheetData[sheetIndex] = [...newSheetData[sheetIndex]];
+    newSheetData[sheetIndex][row] = [...newSheetData[sheetIndex][row]];
+    newSheetData[sheetIndex][row][col] = { ...cell, pinned: !cell.pinned };
+    setSheetData(newSheetData);
+    recordChange(`${cell.pinned ? 'Unpin' : 'Pin'} ${sheetNames[sheetIndex]} row ${row + 1} ${headers[col]}`, sheetsState(), { sheetData: newSheetData });
+
+    if (onDataChange) {
+      const newData = data.map((item, idx) => ({
+        prevRow: item.prevRow,
+        data: idx === sheetIndex ? newSheetData[idx] : item.data
+      }));
+      onDataChange(newData);
+    }
+  };
+
+  const toggleSelection = (selection: number[], index: number) =>
+    selection.includes(index) ? selection.filter(i => i !== index) : [...selection, index];
+
   const handleAddRow = (sheetIndex: number) => {
     const newSheetData = [...sheetData];
     const currentSheet = newSheetData[sheetIndex];
@@ -123,8 +267,9 @@ const ThreeDSpreadsheet = forwardRef<
       row: currentSheet.length,
       col: colIndex
     }));
-    currentSheet.push(newRow);
+    newSheetData[sheetIndex] = [...currentSheet, newRow];
     setSheetData(newSheetData);
+    recordChange(`Add row to ${sheetNames[sheetIndex]}`, sheetsState(), { sheetData: newSheetData });
 
     // Call onDataChange with updated data
     if (onDataChange) {
@@ -139,7 +284,9 @@ const ThreeDSpreadsheet = forwardRef<
   const handleAddColumn = (sheetIndex: number) => {
     // Add new header
     const newHeaders = [...headers, `Column ${headers.length + 1}`];
+    const newSpecs = [...headers.map((_, i) => columnSpecs[i] || defaultColumnSpec()), defaultColumnSpec()];
     setHeaders(newHeaders);
+    setColumnSpecs(newSpecs);
     
     // Add new column to each row in the sheet
     const newSheetData = [...sheetData];
@@ -148,6 +295,7 @@ const ThreeDSpreadsheet = forwardRef<
       { value: '', row: rowIndex, col: row.length }
     ]);
     setSheetData(newSheetData);
+    recordChange('Add column', sheetsState(), { sheetData: newSheetData, headers: newHeaders, columnSpecs: newSpecs });
 
     // Call onDataChange with updated data
     if (onDataChange) {
@@ -164,7 +312,10 @@ const ThreeDSpreadsheet = forwardRef<
     
     // Remove header
     const newHeaders = headers.filter((_, i) => i !== colIndex);
+    const newSpecs = columnSpecs.filter((_, i) => i !== colIndex);
     setHeaders(newHeaders);
+    setColumnSpecs(newSpecs);
+    setSelectedCols([]);
     
     // Remove column from each row
     const newSheetData = [...sheetData];
@@ -173,6 +324,7 @@ const ThreeDSpreadsheet = forwardRef<
         .map((cell, i) => ({ ...cell, col: i }))
     );
     setSheetData(newSheetData);
+    recordChange(`Delete column "${headers[colIndex]}"`, sheetsState(), { sheetData: newSheetData, headers: newHeaders, columnSpecs: newSpecs });
 
     // Call onDataChange with updated data
     if (onDataChange) {
@@ -192,6 +344,8 @@ const ThreeDSpreadsheet = forwardRef<
         row.map(cell => ({ ...cell, row: newRowIndex }))
       );
     setSheetData(newSheetData);
+    setSelectedRows({ ...selectedRows, [sheetIndex]: [] });
+    recordChange(`Delete row ${rowIndex + 1} of ${sheetNames[sheetIndex]}`, sheetsState(), { sheetData: newSheetData });
 
     // Call onDataChange with updated data
     if (onDataChange) {
@@ -203,40 +357,70 @@ const ThreeDSpreadsheet = forwardRef<
     }
   };
 
-  const handleRunFind = async () => {
+  // A fresh find replaces each sheet's rows; "more" continues each sheet's last
+  // find and appends what it returns, leaving out entities already in the sheet
+  const handleRunFind = async (more = false) => {
+    const before = sheetsState();
     setIsRunningFind(true);
     setLoadingSheets(sheetData.reduce((acc, _, idx) => ({ ...acc, [idx]: true }), {}));
     setShowRunDropdown(false);
     try {
+      const newCursors: typeof findCursors = {};
+      // Columns marked to be filled by the search itself
+      const findColumns = headers.filter((_, colIndex) => colIndex > 0 && specAt(columnSpecs, colIndex).fromFind);
+      const findColumnSpecs = findColumns.reduce((acc, header) => {
+        acc[header] = specAt(columnSpecs, headers.indexOf(header));
+        return acc;
+      }, {} as { [header: string]: ColumnSpec });
+
       // For each sheet, make a findall API call
       const promises = data.map(async (sheet, sheetIndex) => {
         // Get the first column value as the query
         const firstColumnCell = sheet.prevRow.find(cell => cell.col === 0);
         if (!firstColumnCell) return null;
 
+        const query = findQuery(sheet);
+        const cursor = more && findCursors[sheetIndex]?.query === query ? findCursors[sheetIndex].cursor : undefined;
+        // Sheets whose find has run out keep their rows
+        if (more && !cursor) return { prevRow: sheet.prevRow, data: sheetData[sheetIndex] || [] };
+        const keptRows = cursor ? (sheetData[sheetIndex] || []).filter(row => row.some(cell => cell.value)) : [];
+
         const response = await fetch('/api/findall', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            query: `${headers[0]} for: ${firstColumnCell.value}`,
-            sheet_level: true
+            query,
+            sheet_level: true,
+            forceRefresh,
+            cursor,
+            exclude: keptRows.map(row => row[0]?.value).filter(Boolean),
+            columns: findColumns,
+            columnSpecs: findColumnSpecs
           }),
         });
 
         if (!response.ok) throw new Error('Failed to run search');
         
-        const { results } = await response.json();
+        const { results, attributes, provenance, nextCursor } = await response.json();
+        if (nextCursor) newCursors[sheetIndex] = { query, cursor: nextCursor };
         
         // Create rows from the results
-        const newRows = results.map((result: string, rowIndex: number) => 
-          headers.map((_, colIndex) => ({
-            value: colIndex === 0 ? result : '',
-            row: rowIndex,
-            col: colIndex
-          }))
-        );
+        const newRows = [
+          ...keptRows,
+          ...results.map((result: string, index: number): CellData[] => 
+            headers.map((header, colIndex) => {
+              const value = colIndex === 0 ? result : attributes?.[index]?.[header] || '';
+              return {
+                value,
+                row: 0,
+                col: colIndex,
+                provenance: value ? provenance : undefined
+              };
+            })
+          )
+        ].map((row: CellData[], rowIndex) => row.map(cell => ({ ...cell, row: rowIndex })));
 
         return {
           prevRow: sheet.prevRow,
@@ -245,10 +429,14 @@ const ThreeDSpreadsheet = forwardRef<
       });
 
       const updates = (await Promise.all(promises)).filter(Boolean);
+      setFindCursors(newCursors);
       
       // Update the sheet data
       const newSheetData = updates.map(update => update?.data || []);
       setSheetData(newSheetData);
+      if (!more) setSelectedRows({});
+      recordChange(more ? 'Find more' : 'Find all', before, { sheetData: newSheetData });
+      onSnapshot?.(more ? 'Find more' : 'Find all', headers, snapshotSheets(newSheetData));
 
       // Call onDataChange with the complete data structure
       if (onDataChange) {
@@ -266,7 +454,8 @@ const ThreeDSpreadsheet = forwardRef<
     }
   };
 
-  const handleRunCells = async () => {
+  const handleRunCells = async (mode: RunMode = 'all') => {
+    const before = sheetsState();
     setIsRunningCells(true);
     setLoadingSheets(sheetData.reduce((acc, _, idx) => ({ ...acc, [idx]: true }), {}));
     setShowRunDropdown(false);
@@ -277,40 +466,30 @@ const ThreeDSpreadsheet = forwardRef<
         const firstColumnCell = sheet.prevRow.find(cell => cell.col === 0);
         if (!firstColumnCell) return null;
 
-        // Create columns object from headers, excluding the first column
-        const columns = headers.slice(1).reduce((acc, header, index) => {
-          acc[header] = ''; // Empty string as initial value
-          return acc;
-        }, {} as { [key: string]: string });
-
-        // For each row in the sheet, make a runCells API call
-        const rowPromises = sheetData[sheetIndex].map(async (row, rowIndex) => {
-          const response = await fetch('/api/runCells', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              input: row[0]?.value || firstColumnCell.value, // Use row's first column value if exists, otherwise use sheet's first column
-              columns
-            }),
-          });
-
-          if (!response.ok) throw new Error('Failed to run cells');
-          
-          const responseData = await response.json();
-          
-          if (responseData.success && responseData.results) {
+        // For each row in the sheet, run its enrichment columns in dependency order
+        const rowPromises = sheetData[sheetIndex].map(async (row, rowIndex): Promise<CellData[]> => {
+          if (mode === 'selected' && hasSelectedRows && !selectedRows[sheetIndex]?.includes(rowIndex)) return row;
+
+          // Use row's first column value if exists, otherwise use sheet's first column
+          const input = row[0]?.value || firstColumnCell.value;
+          try {
+            const { values, errors, inputsKeys, provenance } = await enrichRow(input, headers, columnSpecs, row, {
+              forceRefresh,
+              shouldRun: runModeFilter(mode, headers, row, selectedCols)
+            });
+
             return [
               // Keep the first column unchanged
-              { value: row[0]?.value || firstColumnCell.value, row: rowIndex, col: 0 },
-              // Map the remaining columns by their header names
-              ...headers.slice(1).map((header, colIndex) => ({
-                value: responseData.results[header] || '',
-                row: rowIndex,
-                col: colIndex + 1
-              }))
+              { ...row[0], value: input, row: rowIndex, col: 0 },
+              // Map the remaining columns by their header names, keeping any that didn't run
+              // or whose value was rejected, which is shown on the cell
+              ...headers.slice(1).map((header, colIndex) => header in values
+                ? { value: values[header], row: rowIndex, col: colIndex + 1, inputsKey: inputsKeys[header], provenance: provenance[header] }
+                : { ...(row[colIndex + 1] || { value: '' }), row: rowIndex, col: colIndex + 1, runError: errors[header] ?? row[colIndex + 1]?.runError })
             ];
+          } catch (error) {
+            // Keep the row as it was so one failed row doesn't sink the whole run
+            console.error(`Error running cells for sheet ${sheetIndex} row ${rowIndex}:`, error);
           }
           return row;
         });
@@ -327,6 +506,8 @@ const ThreeDSpreadsheet = forwardRef<
       // Update the sheet data
       const newSheetData = updates.map(update => update?.data || []);
       setSheetData(newSheetData);
+      recordChange(`Run cells (${mode})`, before, { sheetData: newSheetData });
+      onSnapshot?.(`Run cells (${mode})`, headers, snapshotSheets(newSheetData));
 
       // Call onDataChange with the complete data structure
       if (onDataChange) {
@@ -347,7 +528,16 @@ const ThreeDSpreadsheet = forwardRef<
   useImperativeHandle(ref, () => ({
     handleRunFind,
     handleRunCells,
-    getHeaders: () => headers
+    getHeaders: () => headers,
+    getColumnSpecs: () => columnSpecs,
+    getTitle: () => title,
+    restoreSnapshot,
+    // Set by the builder, which moves the rows in the data it passes down
+    applyDefinition: (definition: StepDefinition) => {
+      setHeaders(definition.headers);
+      setColumnSpecs(definition.columnSpecs);
+      setSelectedCols([]);
+    }
   }));
 
   return (
@@ -367,7 +557,10 @@ const ThreeDSpreadsheet = forwardRef<
               <input
                 type="text"
                 value={title}
-                onChange={(e) => setTitle(e.target.value)}
+                onChange={(e) => {
+                  setTitle(e.target.value);
+                  onEdit?.();
+                }}
                 onBlur={() => setIsEditingTitle(false)}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter') {
@@ -429,7 +622,7 @@ const ThreeDSpreadsheet = forwardRef<
               {showRunDropdown && (
                 <div className="absolute right-0 mt-2 w-48 bg-white shadow-lg border border-gray-200 py-1 z-[103]">
                   <button
-                    onClick={handleRunFind}
+                    onClick={() => handleRunFind()}
                     className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-50 
                       transition-colors duration-150 flex items-center gap-2"
                   >
@@ -439,15 +632,42 @@ const ThreeDSpreadsheet = forwardRef<
                     Run Find
                   </button>
                   <button
-                    onClick={handleRunCells}
+                    onClick={() => handleRunFind(true)}
+                    disabled={!canFindMore}
                     className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-50 
-                      transition-colors duration-150 flex items-center gap-2"
+                      transition-colors duration-150 flex items-center gap-2
+                      disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7h16M4 12h16M4 17h7" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
                     </svg>
-                    Run Cells
+                    Find More
                   </button>
+                  {RUN_MODES.map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      onClick={() => handleRunCells(mode)}
+                      disabled={mode === 'selected' && !hasSelectedRows && selectedCols.length === 0}
+                      className="w-full px-4 py-2 text-left text-gray-700 hover:bg-gray-50 
+                        transition-colors duration-150 flex items-center gap-2
+                        disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7h16M4 12h16M4 17h7" />
+                      </svg>
+                      {label}
+                    </button>
+                  ))}
+                  <label className="w-full px-4 py-2 text-gray-700 border-t border-gray-100
+                    flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={forceRefresh}
+                      onChange={(e) => setForceRefresh(e.target.checked)}
+                      className="accent-indigo-500"
+                    />
+                    Force refresh
+                  </label>
                 </div>
               )}
             </div>
@@ -553,6 +773,16 @@ const ThreeDSpreadsheet = forwardRef<
                         onDeleteRow={(rowIndex) => handleDeleteRow(actualIndex, rowIndex)}
                         firstColumnWidth="min-w-[8rem] max-w-[8rem]"
                         isLoading={loadingSheets[actualIndex]}
+                        columnSpecs={columnSpecs}
+                        onColumnSpecChange={handleColumnSpecChange}
+                        onTogglePin={(row, col) => handleTogglePin(actualIndex, row, col)}
+                        selectedRows={selectedRows[actualIndex] || []}
+                        selectedCols={selectedCols}
+                        onToggleRowSelection={(rowIndex) => setSelectedRows({
+                          ...selectedRows,
+                          [actualIndex]: toggleSelection(selectedRows[actualIndex] || [], rowIndex)
+                        })}
+                        onToggleColumnSelection={(colIndex) => setSelectedCols(toggleSelection(selectedCols, colIndex))}
                       />
                     </div>
                   </div>
@@ -1,19 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
-
-interface Message {
-  id: string;
-  content: string;
-  role: 'user' | 'system';
-  timestamp: number;
-}
+import { ProposedStep, StepDiff, WorkflowStep, diffWorkflow, stepLabel } from '@/lib/workflow';
+import { ConversationStorage, Mutation, StoredMessage as Message, downloadConversations } from '@/lib/conversations';
 
 interface WorkflowAssistantProps {
   isOpen: boolean;
   onClose: () => void;
+  workflowId: string;
+  // The workflow as it stands, which proposals are compared against
+  steps: ProposedStep[];
+  // Applies a proposal, returning the steps it replaced
+  onAcceptProposal: (steps: ProposedStep[]) => WorkflowStep[];
+  onRestoreSteps: (steps: WorkflowStep[]) => void;
 }
 
-export function WorkflowAssistant({ isOpen, onClose }: WorkflowAssistantProps) {
+const DIFF_STYLES: { [status in StepDiff['status']]: string } = {
+  added: 'border-green-300 bg-green-50',
+  removed: 'border-red-300 bg-red-50 line-through',
+  changed: 'border-amber-300 bg-amber-50',
+  unchanged: 'border-gray-200 bg-white text-gray-500',
+};
+
+export function WorkflowAssistant({ isOpen, onClose, workflowId, steps, onAcceptProposal, onRestoreSteps }: WorkflowAssistantProps) {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [mutations, setMutations] = useState<Mutation[]>([]);
+  const [storage, setStorage] = useState<ConversationStorage | null>(null);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -27,6 +37,18 @@ export function WorkflowAssistant({ isOpen, onClose }: WorkflowAssistantProps) {
     scrollToBottom();
   }, [messages]);
 
+  // localStorage only exists in the browser, so the conversation is loaded after mounting
+  useEffect(() => {
+    const conversations = new ConversationStorage(workflowId);
+    setStorage(conversations);
+    setMessages(conversations.getMessages('workflow_assistant'));
+    setMutations(conversations.getMutations('workflow_assistant'));
+  }, [workflowId]);
+
+  useEffect(() => {
+    storage?.setMessages('workflow_assistant', messages);
+  }, [storage, messages]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!inputValue.trim() || isLoading) return;
@@ -43,12 +65,15 @@ export function WorkflowAssistant({ isOpen, onClose }: WorkflowAssistantProps) {
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/orchestrate', {
+      const response = await fetch('/api/orchestrate/workflow', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ messages: [...messages, newMessage] }),
+        body: JSON.stringify({
+          messages: [...messages, newMessage].map(({ role, content }) => ({ role, content })),
+          steps
+        }),
       });
 
       if (!response.ok) throw new Error('Failed to get response');
@@ -60,6 +85,8 @@ export function WorkflowAssistant({ isOpen, onClose }: WorkflowAssistantProps) {
         content: data.response,
         role: 'system',
         timestamp: Date.now(),
+        proposal: data.proposal,
+        proposalStatus: data.proposal ? 'pending' : undefined,
       }]);
     } catch (error) {
       console.error('Error:', error);
@@ -74,6 +101,129 @@ export function WorkflowAssistant({ isOpen, onClose }: WorkflowAssistantProps) {
     }
   };
 
+  const resolveProposal = (message: Message, status: 'accepted' | 'dismissed') => {
+    const notices: Message[] = [];
+    if (status === 'accepted' && message.proposal) {
+      const previousSteps = onAcceptProposal(message.proposal);
+      const changed = diffWorkflow(steps, message.proposal).filter(entry => entry.status !== 'unchanged').length;
+      const recorded = storage?.recordMutation({
+        source: 'workflow_assistant',
+        messageId: message.id,
+        description: `Applied a proposal changing ${changed} step${changed === 1 ? '' : 's'}`,
+        reason: message.content,
+        undo: { steps: previousSteps }
+      });
+      if (recorded && !recorded.saved) {
+        notices.push({
+          id: crypto.randomUUID(),
+          content: 'The change could not be saved in this browser, so it can only be undone until the page is closed.',
+          role: 'system',
+          timestamp: Date.now(),
+        });
+      }
+    }
+    // Only one proposal can be applied; accepting one retires any others still open
+    setMessages(prev => [...prev.map((m): Message => {
+      if (m.id === message.id) return { ...m, proposalStatus: status };
+      if (status === 'accepted' && m.proposalStatus === 'pending') return { ...m, proposalStatus: 'dismissed' };
+      return m;
+    }), ...notices]);
+    if (storage) setMutations(storage.getMutations('workflow_assistant'));
+  };
+
+  // Puts the steps back as they were before the proposal; later proposals have
+  // to be undone first, as they were built on top of it
+  const undoMutation = (mutation: Mutation) => {
+    if (!storage || !mutation.undo?.steps) return;
+    onRestoreSteps(mutation.undo.steps);
+    storage.markUndone(mutation.id);
+    setMutations(storage.getMutations('workflow_assistant'));
+  };
+
+  const renderChanges = () => {
+    if (mutations.length === 0) return null;
+    const latest = [...mutations].reverse().find(mutation => !mutation.undoneAt);
+
+    return (
+      <div className="p-4 border-b border-gray-200 max-h-48 overflow-y-auto">
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Changes</h3>
+        <div className="space-y-2">
+          {[...mutations].reverse().map(mutation => (
+            <div key={mutation.id} className={`text-xs ${mutation.undoneAt ? 'text-gray-400 line-through' : 'text-gray-700'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{mutation.description}</span>
+                {mutation === latest && mutation.undo?.steps && (
+                  <button
+                    onClick={() => undoMutation(mutation)}
+                    className="px-2 py-0.5 border border-gray-200 hover:bg-gray-50 transition-colors duration-150"
+                  >
+                    Undo
+                  </button>
+                )}
+              </div>
+              {mutation.reason && <div className="text-gray-500">Because: {mutation.reason}</div>}
+              <div className="text-gray-400">{new Date(mutation.timestamp).toLocaleString()}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderProposal = (message: Message) => {
+    if (!message.proposal) return null;
+    // Compared against the live workflow, so the diff stays true if it changes meanwhile
+    const diff = diffWorkflow(steps, message.proposal);
+
+    return (
+      <div className="mt-2 space-y-1 text-sm">
+        {diff.map((entry, index) => {
+          const step = entry.after || entry.before;
+          if (!step) return null;
+          return (
+            <div key={index} className={`border px-2 py-1 ${DIFF_STYLES[entry.status]}`}>
+              <div className="font-medium">
+                {index + 1}. {stepLabel(step.type)}
+                {step.summary && <span className="font-normal"> - {step.summary}</span>}
+              </div>
+              {entry.status === 'added' && step.headers.length > 0 && (
+                <div className="text-xs">Columns: {step.headers.join(', ')}</div>
+              )}
+              {entry.status === 'added' && step.prompt && (
+                <div className="text-xs">Prompt: {step.prompt}</div>
+              )}
+              {entry.changes.map((change, i) => (
+                <div key={i} className="text-xs">{change}</div>
+              ))}
+            </div>
+          );
+        })}
+        {message.proposalStatus === 'pending' ? (
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={() => resolveProposal(message, 'accepted')}
+              className="px-3 py-1 bg-indigo-500 text-white text-sm font-medium
+                hover:bg-indigo-600 transition-colors duration-150"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => resolveProposal(message, 'dismissed')}
+              className="px-3 py-1 border border-gray-200 text-gray-700 text-sm
+                hover:bg-gray-50 transition-colors duration-150"
+            >
+              Dismiss
+            </button>
+          </div>
+        ) : (
+          <div className="text-xs text-gray-500 pt-1">
+            {message.proposalStatus === 'accepted' ? 'Applied to the workflow' : 'Dismissed'}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -85,11 +235,19 @@ export function WorkflowAssistant({ isOpen, onClose }: WorkflowAssistantProps) {
     <div className={`
       fixed right-0 top-0 w-96 h-screen bg-white shadow-xl transition-all duration-300 transform
       ${isOpen ? 'translate-x-0' : 'translate-x-full'}
-      border-l border-gray-200/80 z-[55]
+      border-l border-gray-200/80 z-[55] flex flex-col
     `}>
       {/* Header */}
       <div className="p-4 border-b border-gray-200 flex items-center justify-between">
         <h2 className="text-lg font-semibold text-gray-800">Workflow Assistant</h2>
+        <div className="flex items-center gap-1">
+        <button
+          onClick={() => storage && downloadConversations(storage, workflowId)}
+          className="px-2 py-1 text-sm text-gray-600 hover:bg-gray-100
+            hover:text-gray-900 transition-colors duration-150"
+        >
+          Export
+        </button>
         <button
           onClick={onClose}
           className="p-2 rounded-lg hover:bg-gray-100 text-gray-600 
@@ -99,8 +257,11 @@ export function WorkflowAssistant({ isOpen, onClose }: WorkflowAssistantProps) {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
           </svg>
         </button>
+        </div>
       </div>
 
+      {renderChanges()}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.map((message) => (
@@ -118,6 +279,7 @@ export function WorkflowAssistant({ isOpen, onClose }: WorkflowAssistantProps) {
               `}
             >
               <p className="whitespace-pre-wrap">{message.content}</p>
+              {renderProposal(message)}
             </div>
           </div>
         ))}
@@ -139,7 +301,7 @@ export function WorkflowAssistant({ isOpen, onClose }: WorkflowAssistantProps) {
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Type a message..."
+            placeholder="Describe the workflow you want..."
             className="flex-1 resize-none border border-gray-200 p-3 focus:outline-none 
               focus:ring-2 focus:ring-indigo-400/30 min-h-[2.5rem] max-h-32"
             rows={1}
@@ -1,19 +1,111 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import Link from 'next/link';
 import { SingleSpreadsheet } from './SingleSpreadsheet';
 import ThreeDSpreadsheet from './ThreeDSpreadsheet';
 import { LLMPipeSpreadsheet } from './LLMPipeSpreadsheet';
+import { WorkflowAssistant } from './WorkflowAssistant';
+import { HistoryContext, HistoryPanel } from './HistoryPanel';
+import { SnapshotViewer } from './SnapshotViewer';
+import { CsvImport, CsvImportResult } from './CsvImport';
+import { ProposedStep, WorkflowStep, diffWorkflow, redefineStep, stepDefinition } from '@/lib/workflow';
+import { SpreadsheetStorage } from '@/lib/storage';
+import type { StoredWorkflow } from '@/lib/workflowStore';
+import { History } from '@/lib/history';
+import type { Snapshot, SnapshotSheet } from '@/lib/snapshots';
+import { groupRows } from '@/lib/csv';
+
+// Edits are saved once they have settled for this long
+const SAVE_DELAY_MS = 1000;
+
+// Brings the step after this one up to date with its rows: a 3D sheet gets one
+// sheet per row and an LLM pipe gets each row as its input. Other steps read
+// the step before them when they render.
+function syncNextStep(steps: WorkflowStep[], stepIndex: number) {
+  const step = steps[stepIndex];
+  const nextStep = steps[stepIndex + 1];
+  if (!nextStep) return;
+  const newData = step.data;
+
+  // Update 3D sheet if it follows a single sheet
+  if (step.type === 'single' && nextStep.type === '3d') {
+    const singleSheetData = newData as Array<Array<{ value: string; row: number; col: number }>>;
+    const existingSheets = nextStep.data as Array<{
+      prevRow: Array<{ value: string; row: number; col: number }>;
+      data: Array<{ value: string; row: number; col: number }[]>;
+    }>;
+    // Each sheet keeps its rows for as long as its row here keeps its first value
+    const threeDData = singleSheetData.map(row => ({
+      prevRow: row,
+      data: existingSheets.find(sheet => sheet.prevRow[0]?.value === row[0]?.value)?.data
+        || [[{ col: 0, row: 0, value: '' }]]
+    }));
+    steps[stepIndex + 1] = { ...nextStep, data: threeDData, executed: false };
+  }
+
+  // Update LLM pipe if it follows
+  if (nextStep.type === 'llm_pipe') {
+    let llmSourceData: Array<Array<{ value: string; row: number; col: number }>> = [];
+
+    if (Array.isArray(newData[0])) {
+      llmSourceData = newData as Array<Array<{ value: string; row: number; col: number }>>;
+    } else {
+      const threeDData = newData as Array<{ 
+        prevRow: Array<{ value: string; row: number; col: number }>;
+        data: Array<{ value: string; row: number; col: number }[]>;
+      }>;
+      llmSourceData = threeDData.map(sheet => sheet.prevRow);
+    }
+
+    // Preserve existing LLM responses while updating inputs
+    const existingLLMData = nextStep.data as Array<Array<{ value: string; row: number; col: number }>>;
+    const updatedLLMData = llmSourceData.map((row, index) => {
+      const existingResponse = existingLLMData[index]?.[1]?.value || '';
+      return [
+        { value: row.map((cell, colIndex) => {
+          const columnName = `Column ${colIndex + 1}`;
+          return `${columnName}: ${cell.value}`;
+        }).join('\n'), row: row[0]?.row || 0, col: 0 },
+        { value: existingResponse, row: row[0]?.row || 0, col: 1 }
+      ];
+    });
+
+    steps[stepIndex + 1] = { ...nextStep, data: updatedLLMData, executed: false };
+  }
+}
 
-interface WorkflowStep {
-  type: 'single' | '3d' | 'aggregation' | 'llm_pipe';
-  data: Array<Array<{ value: string; row: number; col: number }>> | Array<{ prevRow: Array<{ value: string; row: number; col: number }>; data: Array<{ value: string; row: number; col: number }[]> }>;
-  executed?: boolean;
+interface WorkflowBuilderProps {
+  // Keys what is stored for this workflow: its steps and its assistant conversations
+  workflowId?: string;
 }
 
-export function WorkflowBuilder() {
+export function WorkflowBuilder({ workflowId = 'default' }: WorkflowBuilderProps) {
   const [workflowSteps, setWorkflowSteps] = useState<WorkflowStep[]>([]);
   const [showInitialButton, setShowInitialButton] = useState(true);
   const [isRunningAll, setIsRunningAll] = useState(false);
+  const [isAssistantOpen, setIsAssistantOpen] = useState(false);
   const stepsRefs = useRef<(React.RefObject<any>)[]>([]);
+  const storageRef = useRef<SpreadsheetStorage | null>(null);
+  // Steps whose sheets start from their saved rows rather than set up fresh
+  const restoredStepIds = useRef<Set<string>>(new Set());
+  const [isLoaded, setIsLoaded] = useState(false);
+  // The server's revision of the workflow this page last loaded or saved
+  const revisionRef = useRef<number | undefined>(undefined);
+  // Saves run one at a time, each sending the revision the one before got back
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  // Set when a save was refused because the workflow was saved from somewhere else
+  const [conflict, setConflict] = useState<StoredWorkflow | null>(null);
+  // Bumped when a whole workflow is loaded over the current one, so every sheet starts afresh
+  const [generation, setGeneration] = useState(0);
+  // Bumped by edits that stay inside a sheet (column types, titles, prompts), so they are saved like step changes
+  const [sheetEdits, setSheetEdits] = useState(0);
+  // From the server; unknown until the workflow has been saved there
+  const [name, setName] = useState<string | null>(null);
+  // Undo and redo for the steps and everything done in their sheets
+  const historyRef = useRef(new History());
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // The step whose snapshots are being looked at
+  const [snapshotStepIndex, setSnapshotStepIndex] = useState<number | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   useEffect(() => {
     // Initialize refs for all steps
@@ -25,13 +117,142 @@ export function WorkflowBuilder() {
     });
   }, [workflowSteps]);
 
+  const restoreWorkflow = (steps: WorkflowStep[]) => {
+    steps.forEach(step => restoredStepIds.current.add(step.id));
+    setWorkflowSteps(steps);
+    setShowInitialButton(steps.length === 0);
+  };
+
+  // Steps at the same place in both lists whose headers, column types or prompt
+  // differ, comparing what the sheets showed. Their sheets stay on screen, so
+  // they have to be handed the new ones.
+  const redefinedSteps = (from: WorkflowStep[], to: WorkflowStep[]): number[] => {
+    const setup = (step: WorkflowStep) => JSON.stringify([step.headers, step.columnSpecs, step.prompt]);
+    return to.flatMap((step, index) => from[index]?.id === step.id && setup(from[index]) !== setup(step) ? [index] : []);
+  };
+
+  const putBackSteps = (steps: WorkflowStep[], redefined: number[]) => {
+    restoreWorkflow(steps);
+    redefined.forEach(index => stepsRefs.current[index]?.current?.applyDefinition?.(stepDefinition(steps[index])));
+  };
+
+  // Records a change to the steps, undone by putting the steps back as they were.
+  // Sheets that stay keep what is in them, apart from the redefined ones, which
+  // are handed their setup; removed ones come back from the snapshot.
+  const recordStepsChange = (label: string, before: WorkflowStep[], after: WorkflowStep[], redefined: number[] = []) => {
+    historyRef.current.push({
+      label,
+      undo: () => putBackSteps(before, redefined),
+      redo: () => putBackSteps(after, redefined)
+    });
+  };
+
+  // Ctrl+Z and Ctrl+Shift+Z (Cmd on a Mac), except while typing, where they edit the text
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        historyRef.current.redo();
+      } else {
+        historyRef.current.undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // The workflow is loaded from the server, or from the copy kept in this browser
+  // when that was built on the server's current revision (e.g. edits made just
+  // before the page was left) or the server can't be reached. A copy built on an
+  // older revision has been saved over since, from here or elsewhere. localStorage only exists in the browser, so this
+  // happens after mounting.
+  useEffect(() => {
+    const storage = new SpreadsheetStorage();
+    storageRef.current = storage;
+    const local = storage.getWorkflow(workflowId);
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/workflows/${workflowId}`);
+        if (response.ok) {
+          const { workflow } = await response.json() as { workflow: StoredWorkflow };
+          revisionRef.current = workflow.revision;
+          setName(workflow.name);
+          const useLocal = local && local.revision === workflow.revision;
+          restoreWorkflow(useLocal ? local.steps : workflow.steps);
+          return;
+        }
+        if (response.status !== 404) throw new Error(`Failed to load workflow: ${response.status}`);
+      } catch (error) {
+        console.error('Error loading workflow:', error);
+      }
+      if (local) restoreWorkflow(local.steps);
+    };
+
+    load().finally(() => setIsLoaded(true));
+  }, [workflowId]);
+
   const handleCreateInitialSheet = () => {
-    setWorkflowSteps([{ 
+    const newSteps: WorkflowStep[] = [{ 
+      id: crypto.randomUUID(),
       type: 'single', 
       data: [[{ value: '', row: 0, col: 0 }]],
       executed: false 
-    }]);
+    }];
+    setWorkflowSteps(newSteps);
     setShowInitialButton(false);
+    recordStepsChange('Add sheet', snapshotSteps(), newSteps);
+  };
+
+  // Starts the workflow from a file. A grouped import becomes a sheet of the distinct
+  // values followed by a 3D sheet holding each value's rows. Imported values count as
+  // typed by hand, so runs keep them.
+  const handleImportFile = (result: CsvImportResult) => {
+    const toCells = (rows: string[][]) => rows.map((values, row) =>
+      values.map((value, col) => ({ value, row, col, pinned: col > 0 && value !== '' }))
+    );
+    const newSteps: WorkflowStep[] = [];
+
+    if (result.groupBy === undefined) {
+      newSteps.push({
+        id: crypto.randomUUID(),
+        type: 'single',
+        data: toCells(result.rows),
+        executed: false,
+        headers: result.headers,
+        title: result.fileName
+      });
+    } else {
+      const groupBy = result.groupBy;
+      const groups = groupRows(result.rows, groupBy);
+      const withoutKey = (values: string[]) => values.filter((_, col) => col !== groupBy);
+      const keys = toCells(groups.map(group => [group.key]));
+      newSteps.push({
+        id: crypto.randomUUID(),
+        type: 'single',
+        data: keys,
+        executed: false,
+        headers: [result.headers[groupBy]],
+        title: `${result.fileName} (${result.headers[groupBy]})`
+      }, {
+        id: crypto.randomUUID(),
+        type: '3d',
+        data: groups.map((group, index) => ({
+          prevRow: keys[index],
+          data: toCells(group.rows.map(withoutKey))
+        })),
+        executed: false,
+        headers: withoutKey(result.headers),
+        title: result.fileName
+      });
+    }
+
+    recordStepsChange(`Import ${result.fileName}`, snapshotSteps(), newSteps);
+    restoreWorkflow(newSteps);
   };
 
   const runAll = async () => {
@@ -99,6 +320,23 @@ export function WorkflowBuilder() {
       console.error('Error running all steps:', error);
     } finally {
       setIsRunningAll(false);
+      recordRun();
+    }
+  };
+
+  // Shown in the workflow library; a details change, so it can't conflict with saves
+  const recordRun = async () => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lastRunAt: new Date().toISOString() }),
+      });
+      if (!response.ok && response.status !== 404) throw new Error('Failed to record run');
+    } catch (error) {
+      console.error('Error recording run:', error);
     }
   };
 
@@ -120,11 +358,13 @@ export function WorkflowBuilder() {
     }));
 
     newSteps.push({ 
+      id: crypto.randomUUID(),
       type: '3d', 
       data: threeDData,
       executed: false
     });
     setWorkflowSteps(newSteps);
+    recordStepsChange('Add 3D sheet', snapshotSteps(), newSteps);
   };
 
   const handleDataChange = (stepIndex: number, newData: Array<Array<{ value: string; row: number; col: number }>> | Array<{ prevRow: Array<{ value: string; row: number; col: number }>; data: Array<{ value: string; row: number; col: number }[]> }>) => {
@@ -133,53 +373,7 @@ export function WorkflowBuilder() {
     newSteps[stepIndex].executed = false;
 
     // Only update downstream steps if they exist and are directly dependent
-    if (stepIndex + 1 < newSteps.length) {
-      const nextStep = newSteps[stepIndex + 1];
-      
-      // Update 3D sheet if it follows a single sheet
-      if (newSteps[stepIndex].type === 'single' && nextStep.type === '3d') {
-        const singleSheetData = newData as Array<Array<{ value: string; row: number; col: number }>>;
-        const threeDData = singleSheetData.map(row => ({
-          prevRow: row,
-          data: nextStep.type === '3d' 
-            ? (nextStep.data as any)[0]?.data || [[{ col: 0, row: 0, value: '' }]]
-            : [[{ col: 0, row: 0, value: '' }]]
-        }));
-        newSteps[stepIndex + 1].data = threeDData;
-        newSteps[stepIndex + 1].executed = false;
-      }
-
-      // Update LLM pipe if it follows
-      if (nextStep.type === 'llm_pipe') {
-        let llmSourceData: Array<Array<{ value: string; row: number; col: number }>> = [];
-
-        if (Array.isArray(newData[0])) {
-          llmSourceData = newData as Array<Array<{ value: string; row: number; col: number }>>;
-        } else {
-          const threeDData = newData as Array<{ 
-            prevRow: Array<{ value: string; row: number; col: number }>;
-            data: Array<{ value: string; row: number; col: number }[]>;
-          }>;
-          llmSourceData = threeDData.map(sheet => sheet.prevRow);
-        }
-
-        // Preserve existing LLM responses while updating inputs
-        const existingLLMData = nextStep.data as Array<Array<{ value: string; row: number; col: number }>>;
-        const updatedLLMData = llmSourceData.map((row, index) => {
-          const existingResponse = existingLLMData[index]?.[1]?.value || '';
-          return [
-            { value: row.map((cell, colIndex) => {
-              const columnName = `Column ${colIndex + 1}`;
-              return `${columnName}: ${cell.value}`;
-            }).join('\n'), row: row[0]?.row || 0, col: 0 },
-            { value: existingResponse, row: row[0]?.row || 0, col: 1 }
-          ];
-        });
-
-        newSteps[stepIndex + 1].data = updatedLLMData;
-        newSteps[stepIndex + 1].executed = false;
-      }
-    }
+    syncNextStep(newSteps, stepIndex);
 
     setWorkflowSteps(newSteps);
   };
@@ -224,11 +418,13 @@ export function WorkflowBuilder() {
     }
 
     newSteps.push({ 
+      id: crypto.randomUUID(),
       type: 'aggregation', 
       data: sourceData,
       executed: false
     });
     setWorkflowSteps(newSteps);
+    recordStepsChange('Add aggregation', snapshotSteps(), newSteps);
   };
 
   const handleCreateLLMPipe = (stepIndex: number) => {
@@ -250,13 +446,214 @@ export function WorkflowBuilder() {
     });
 
     newSteps.push({ 
+      id: crypto.randomUUID(),
       type: 'llm_pipe', 
       data: llmData,
       executed: false
     });
     setWorkflowSteps(newSteps);
+    recordStepsChange('Add LLM pipe', snapshotSteps(), newSteps);
   };
 
+  // The steps with what their sheets hold on screen (headers, column types, prompt
+  // and title), so they can be saved or put back as they are now
+  const snapshotSteps = (): WorkflowStep[] => workflowSteps.map((step, index) => {
+    const ref = stepsRefs.current[index]?.current;
+    return {
+      ...step,
+      data: ref?.getRows?.() || step.data,
+      headers: ref?.getHeaders?.() || step.headers,
+      columnSpecs: ref?.getColumnSpecs?.() || step.columnSpecs,
+      prompt: ref?.getPrompt?.() ?? step.prompt,
+      title: ref?.getTitle?.() || step.title
+    };
+  });
+
+  // The workflow as the assistant sees it, with each sheet's live headers and prompt
+  const describeSteps = (): ProposedStep[] => snapshotSteps().map(step => ({
+    type: step.type,
+    headers: step.headers || [],
+    prompt: step.prompt
+  }));
+
+  const saveToServer = async (steps: WorkflowStep[], keepalive = false) => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ steps, revision: revisionRef.current }),
+        keepalive,
+      });
+      const data = await response.json();
+
+      if (response.status === 409) {
+        setConflict(data.workflow);
+        return;
+      }
+      if (!response.ok) throw new Error(data.error || 'Failed to save workflow');
+      revisionRef.current = data.workflow.revision;
+    } catch (error) {
+      console.error('Error saving workflow:', error);
+    }
+  };
+
+  // Saved to this browser straight away and to the server after any save in flight.
+  // Nothing goes to the server while a conflict is waiting to be resolved.
+  const saveWorkflow = (leavingPage = false) => {
+    if (!isLoaded || !storageRef.current) return;
+    const steps = snapshotSteps();
+    try {
+      storageRef.current.saveWorkflow(workflowId, steps, revisionRef.current);
+    } catch (error) {
+      console.error('Error saving workflow:', error);
+    }
+    if (conflict) return;
+    if (leavingPage) {
+      saveToServer(steps, true);
+    } else {
+      saveQueue.current = saveQueue.current.then(() => saveToServer(steps));
+    }
+  };
+
+  // Keeps what is on screen and overwrites the version saved elsewhere
+  const handleKeepMine = () => {
+    if (!conflict) return;
+    revisionRef.current = conflict.revision;
+    setConflict(null);
+    saveQueue.current = saveQueue.current.then(() => saveToServer(snapshotSteps()));
+  };
+
+  // Drops what is on screen for the version saved elsewhere
+  const handleLoadLatest = () => {
+    if (!conflict) return;
+    revisionRef.current = conflict.revision;
+    storageRef.current?.saveWorkflow(workflowId, conflict.steps, conflict.revision);
+    restoreWorkflow(conflict.steps);
+    setGeneration(generation + 1);
+    setConflict(null);
+    // Every sheet starts afresh, so what was recorded in them can't be undone
+    historyRef.current.clear();
+  };
+
+  // Sheet data reaches the steps through their change handlers, and edits that
+  // stay inside a sheet through their onEdit; either saves a second later
+  const saveRef = useRef(saveWorkflow);
+  saveRef.current = saveWorkflow;
+
+  const handleSheetEdit = () => setSheetEdits(count => count + 1);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timeout = setTimeout(() => saveRef.current(), SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [workflowSteps, sheetEdits, isLoaded]);
+
+  useEffect(() => {
+    const handleBeforeUnload = () => saveRef.current(true);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, []);
+
+  // Leaving through a link (e.g. back to the library) unloads nothing, so the page
+  // saves as it goes. A layout cleanup runs before the sheets let go of their handles.
+  useLayoutEffect(() => () => saveRef.current(true), []);
+
+  // Steps the proposal leaves unchanged keep their sheets and data, and so do
+  // steps that keep their type, with their columns moved under the new headers.
+  // The others are set up fresh from the proposal, as if added by hand, and so
+  // is every step after them, since it was built from what they held. Returns
+  // the steps as they were, with their live headers and prompts, so the change
+  // can be undone.
+  const handleAcceptProposal = (proposal: ProposedStep[]): WorkflowStep[] => {
+    const previousSteps = snapshotSteps();
+    const diff = diffWorkflow(describeSteps(), proposal);
+    const newSteps: WorkflowStep[] = [];
+    // Steps whose sheets stay on screen with new headers or prompt
+    const redefined: number[] = [];
+    let replaced = false;
+
+    proposal.forEach((proposed, index) => {
+      const current = previousSteps[index];
+      if (!replaced && diff[index].status === 'unchanged') {
+        newSteps.push(workflowSteps[index]);
+        return;
+      }
+      if (!replaced && current?.type === proposed.type) {
+        newSteps.push(redefineStep(current, proposed));
+        redefined.push(index);
+        return;
+      }
+      replaced = true;
+
+      const previous = newSteps[index - 1];
+      let data: WorkflowStep['data'] = [];
+      if (proposed.type === 'single') {
+        data = [[{ value: '', row: 0, col: 0 }]];
+      } else if (proposed.type === '3d' && previous && Array.isArray(previous.data[0])) {
+        data = (previous.data as Array<Array<{ value: string; row: number; col: number }>>).map(row => ({
+          prevRow: row,
+          data: [[{ col: 0, row: 0, value: '' }]]
+        }));
+      }
+
+      newSteps.push({
+        id: crypto.randomUUID(),
+        type: proposed.type,
+        data,
+        executed: false,
+        headers: proposed.headers,
+        prompt: proposed.prompt
+      });
+    });
+
+    // Kept steps built from a redefined one follow its moved rows
+    redefined.forEach(index => {
+      if (newSteps[index + 1]?.id === previousSteps[index + 1]?.id) syncNextStep(newSteps, index);
+    });
+
+    setWorkflowSteps(newSteps);
+    setShowInitialButton(newSteps.length === 0);
+    redefined.forEach(index => stepsRefs.current[index]?.current?.applyDefinition?.(stepDefinition(newSteps[index])));
+    recordStepsChange('Accept assistant proposal', previousSteps, newSteps, redefined);
+    return previousSteps;
+  };
+
+  const handleRestoreSteps = (steps: WorkflowStep[]) => {
+    const currentSteps = snapshotSteps();
+    const redefined = redefinedSteps(currentSteps, steps);
+    recordStepsChange('Undo assistant proposal', currentSteps, steps, redefined);
+    putBackSteps(steps, redefined);
+  };
+
+  // Every run of a step keeps its results on the server, so later runs can be compared with it
+  const handleSnapshot = async (step: WorkflowStep, name: string, headers: string[], sheets: SnapshotSheet[]) => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/snapshots`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ stepId: step.id, name, headers, sheets }),
+      });
+      if (!response.ok) throw new Error('Failed to save snapshot');
+    } catch (error) {
+      console.error('Error saving snapshot:', error);
+    }
+  };
+
+  const renderSnapshotsButton = (index: number) => (
+    <div className="flex justify-end mt-1">
+      <button
+        onClick={() => setSnapshotStepIndex(index)}
+        className="text-xs text-gray-500 hover:text-indigo-600"
+      >
+        Snapshots
+      </button>
+    </div>
+  );
+
   const renderActionButtons = (step: WorkflowStep, index: number) => {
     // Only render action buttons if this is the last step
     if (index !== workflowSteps.length - 1) return null;
@@ -313,25 +710,40 @@ export function WorkflowBuilder() {
     switch (step.type) {
       case 'single':
         return (
-          <div key={index} className="mb-8">
+          <div key={`${generation}:${step.id}`} className="mb-8">
             <SingleSpreadsheet
               ref={stepsRefs.current[index]}
+              workflowId={workflowId}
+              stepId={step.id}
+              initialHeaders={step.headers}
+              initialColumnSpecs={step.columnSpecs}
+              initialTitle={step.title}
+              initialRows={step.data as Array<Array<{ value: string; row: number; col: number }>>}
               onRowsChanged={(newData) => handleDataChange(index, newData)}
+              onEdit={handleSheetEdit}
+              onSnapshot={(name, headers, sheets) => handleSnapshot(step, name, headers, sheets)}
             />
+            {renderSnapshotsButton(index)}
             {renderActionButtons(step, index)}
           </div>
         );
       case '3d':
         return (
-          <div key={index} className="mb-8">
+          <div key={`${generation}:${step.id}`} className="mb-8">
             <ThreeDSpreadsheet
               ref={stepsRefs.current[index]}
+              initialHeaders={step.headers}
+              initialColumnSpecs={step.columnSpecs}
+              initialTitle={step.title}
               data={step.data as Array<{ 
                 prevRow: Array<{ value: string; row: number; col: number }>;
                 data: Array<{ value: string; row: number; col: number }[]>;
               }>}
               onDataChange={(newData) => handleDataChange(index, newData)}
+              onEdit={handleSheetEdit}
+              onSnapshot={(name, headers, sheets) => handleSnapshot(step, name, headers, sheets)}
             />
+            {renderSnapshotsButton(index)}
             {renderActionButtons(step, index)}
           </div>
         );
@@ -358,11 +770,22 @@ export function WorkflowBuilder() {
           });
         }
 
+        // A new aggregation's data is the sheets it summarises, not rows to show,
+        // so only a restored one starts from it
         return (
-          <div key={index} className="mb-8">
+          <div key={`${generation}:${step.id}`} className="mb-8">
             <SingleSpreadsheet
               ref={stepsRefs.current[index]}
+              workflowId={workflowId}
+              stepId={step.id}
               isAggregation={true}
+              initialHeaders={step.headers}
+              initialColumnSpecs={step.columnSpecs}
+              initialPrompt={step.prompt}
+              initialTitle={step.title}
+              initialRows={restoredStepIds.current.has(step.id)
+                ? step.data as Array<Array<{ value: string; row: number; col: number }>>
+                : undefined}
               sourceSheets={[{ 
                 name: 'Source', 
                 prevRows: sourceStep?.data.map((sheet: any) => sheet.prevRow) || [],
@@ -371,7 +794,10 @@ export function WorkflowBuilder() {
               }]}
               prevTableHeaders={prevTableHeaders}
               onRowsChanged={(newData) => handleDataChange(index, newData)}
+              onEdit={handleSheetEdit}
+              onSnapshot={(name, headers, sheets) => handleSnapshot(step, name, headers, sheets)}
             />
+            {renderSnapshotsButton(index)}
             {renderActionButtons(step, index)}
           </div>
         );
@@ -394,12 +820,17 @@ export function WorkflowBuilder() {
         }
         
         return (
-          <div key={index} className="mb-8">
+          <div key={`${generation}:${step.id}`} className="mb-8">
             <LLMPipeSpreadsheet
               ref={stepsRefs.current[index]}
+              initialPrompt={step.prompt}
+              initialData={restoredStepIds.current.has(step.id)
+                ? step.data as Array<Array<{ value: string; row: number; col: number }>>
+                : undefined}
               sourceData={sourceDataForLLM}
               headers={headers}
               onDataChange={(newData) => handleDataChange(index, newData)}
+              onEdit={handleSheetEdit}
             />
             {renderActionButtons(step, index)}
           </div>
@@ -412,9 +843,38 @@ export function WorkflowBuilder() {
   return (
     <div className="min-h-screen bg-gray-50 p-8 flex flex-col items-center gap-8">
       <div className="w-full max-w-[800px] flex justify-between items-center">
+        <div className="flex items-center gap-4">
         <svg width="162" height="44" viewBox="0 0 162 44" fill="none" xmlns="http://www.w3.org/2000/svg">
           <path d="M5.896 0.631996V38.456H24.264V43H0.84V0.631996H5.896ZM28.7 20.6C28.7 19.064 29.0413 17.6773 29.724 16.44C30.4493 15.2027 31.3667 14.1573 32.476 13.304C33.628 12.408 34.8867 11.7467 36.252 11.32C37.66 10.8507 39.068 10.616 40.476 10.616C41.9693 10.616 43.42 10.8293 44.828 11.256C46.2787 11.6827 47.5587 12.3227 48.668 13.176C49.7773 14.0293 50.6733 15.0747 51.356 16.312C52.0387 17.5493 52.38 18.9787 52.38 20.6V36.984C52.38 37.496 52.572 38.008 52.956 38.52C53.34 38.9893 53.788 39.224 54.3 39.224C54.5987 39.224 54.876 39.16 55.132 39.032C55.388 38.904 55.6867 38.7547 56.028 38.584V42.936C55.4733 43.1067 54.94 43.256 54.428 43.384C53.916 43.512 53.2333 43.576 52.38 43.576C49.6493 43.576 48.284 41.848 48.284 38.392C46.8333 40.184 45.0627 41.5067 42.972 42.36C40.924 43.1707 38.876 43.576 36.828 43.576C35.5907 43.576 34.4173 43.3627 33.308 42.936C32.1987 42.4667 31.196 41.8267 30.3 41.016C29.4467 40.2053 28.764 39.288 28.252 38.264C27.74 37.1973 27.484 36.0453 27.484 34.808C27.484 32.8453 27.9747 31.2453 28.956 30.008C29.98 28.728 31.2387 27.6827 32.732 26.872C34.268 26.0187 35.9107 25.3573 37.66 24.888C39.4093 24.376 41.0307 23.928 42.524 23.544C44.06 23.1173 45.3187 22.6907 46.3 22.264C47.324 21.8373 47.836 21.2827 47.836 20.6C47.836 19.7893 47.6867 19 47.388 18.232C47.0893 17.464 46.6413 16.8027 46.044 16.248C45.4467 15.6507 44.6787 15.1813 43.74 14.84C42.844 14.4987 41.756 14.328 40.476 14.328C39.5373 14.328 38.62 14.4987 37.724 14.84C36.8707 15.1387 36.1027 15.5653 35.42 16.12C34.78 16.6747 34.2467 17.336 33.82 18.104C33.436 18.872 33.244 19.704 33.244 20.6H28.7ZM47.836 25.656C46.684 26.168 45.212 26.6587 43.42 27.128C41.6707 27.5547 39.964 28.088 38.3 28.728C36.636 29.3253 35.2067 30.0933 34.012 31.032C32.8173 31.9707 32.22 33.1867 32.22 34.68C32.22 36.3013 32.8173 37.56 34.012 38.456C35.2067 39.352 36.6147 39.8 38.236 39.8C39.0893 39.8 40.0067 39.672 40.988 39.416C41.9693 39.16 42.908 38.776 43.804 38.264C44.7 37.752 45.4893 37.112 46.172 36.344C46.8973 35.576 47.452 34.68 47.836 33.656V25.656ZM66.984 2.424V11.192H72.04V15.096H66.984V36.152C66.984 37.4747 67.3893 38.4133 68.2 38.968C69.0107 39.48 69.9707 39.736 71.08 39.736C71.2933 39.736 71.528 39.736 71.784 39.736C72.04 39.6933 72.36 39.5653 72.744 39.352V43.064C72.1893 43.192 71.5707 43.2987 70.888 43.384C70.2053 43.512 69.48 43.576 68.712 43.576C67.8587 43.576 67.048 43.4693 66.28 43.256C65.5547 43.0427 64.8933 42.7013 64.296 42.232C63.7413 41.7627 63.2933 41.144 62.952 40.376C62.6107 39.608 62.44 38.6693 62.44 37.56V15.096H57.832V11.192H62.44V2.424H66.984ZM83.359 2.424V11.192H88.415V15.096H83.359V36.152C83.359 37.4747 83.7643 38.4133 84.575 38.968C85.3857 39.48 86.3457 39.736 87.455 39.736C87.6683 39.736 87.903 39.736 88.159 39.736C88.415 39.6933 88.735 39.5653 89.119 39.352V43.064C88.5643 43.192 87.9457 43.2987 87.263 43.384C86.5803 43.512 85.855 43.576 85.087 43.576C84.2337 43.576 83.423 43.4693 82.655 43.256C81.9297 43.0427 81.2683 42.7013 80.671 42.232C80.1163 41.7627 79.6683 41.144 79.327 40.376C78.9857 39.608 78.815 38.6693 78.815 37.56V15.096H74.207V11.192H78.815V2.424H83.359ZM98.006 0.631996V5.88H93.462V0.631996H98.006ZM98.006 11.192V43H93.462V11.192H98.006ZM129.468 31.992C129.127 33.6133 128.615 35.128 127.932 36.536C127.249 37.944 126.375 39.1813 125.308 40.248C124.284 41.272 123.068 42.0827 121.66 42.68C120.252 43.2773 118.652 43.576 116.86 43.576C114.641 43.576 112.721 43.128 111.1 42.232C109.479 41.2933 108.113 40.0773 107.004 38.584C105.937 37.048 105.127 35.2987 104.572 33.336C104.06 31.3733 103.804 29.3253 103.804 27.192C103.804 25.0587 104.06 22.9893 104.572 20.984C105.127 18.9787 105.937 17.208 107.004 15.672C108.113 14.136 109.479 12.8987 111.1 11.96C112.721 11.0213 114.641 10.552 116.86 10.552C118.567 10.552 120.103 10.8507 121.468 11.448C122.876 12.0453 124.092 12.856 125.116 13.88C126.183 14.904 127.057 16.0987 127.74 17.464C128.423 18.7867 128.935 20.216 129.276 21.752H124.668C124.071 19.6187 123.111 17.8693 121.788 16.504C120.465 15.096 118.823 14.392 116.86 14.392C115.495 14.392 114.279 14.7547 113.212 15.48C112.188 16.1627 111.313 17.1013 110.588 18.296C109.863 19.448 109.308 20.792 108.924 22.328C108.54 23.864 108.348 25.4853 108.348 27.192C108.348 28.8987 108.54 30.52 108.924 32.056C109.308 33.5493 109.863 34.872 110.588 36.024C111.313 37.176 112.188 38.0933 113.212 38.776C114.279 39.416 115.495 39.736 116.86 39.736C118.908 39.736 120.593 39.0107 121.916 37.56C123.281 36.1093 124.241 34.2533 124.796 31.992H129.468ZM160.616 33.08C160.189 34.5733 159.592 35.96 158.824 37.24C158.056 38.52 157.117 39.6293 156.008 40.568C154.941 41.5067 153.704 42.2533 152.296 42.808C150.888 43.32 149.352 43.576 147.688 43.576C145.469 43.576 143.506 43.128 141.8 42.232C140.093 41.2933 138.664 40.0773 137.512 38.584C136.36 37.048 135.485 35.2987 134.888 33.336C134.29 31.3733 133.992 29.3253 133.992 27.192C133.992 25.0587 134.29 22.9893 134.888 20.984C135.485 18.9787 136.36 17.208 137.512 15.672C138.664 14.136 140.093 12.8987 141.8 11.96C143.506 11.0213 145.469 10.552 147.688 10.552C149.906 10.552 151.869 11.0213 153.576 11.96C155.282 12.8987 156.712 14.136 157.864 15.672C159.016 17.208 159.89 18.9787 160.488 20.984C161.085 22.9893 161.384 25.0587 161.384 27.192V28.024H138.536C138.621 29.6453 138.898 31.1813 139.368 32.632C139.837 34.04 140.456 35.2773 141.224 36.344C142.034 37.368 142.973 38.2 144.04 38.84C145.149 39.4373 146.365 39.736 147.688 39.736C149.608 39.736 151.293 39.1387 152.744 37.944C154.194 36.7067 155.282 35.0853 156.008 33.08H160.616ZM156.52 24.184C156.264 22.8187 155.88 21.5387 155.368 20.344C154.856 19.1493 154.216 18.1253 153.448 17.272C152.722 16.376 151.869 15.672 150.888 15.16C149.906 14.648 148.84 14.392 147.688 14.392C146.536 14.392 145.469 14.648 144.488 15.16C143.506 15.672 142.632 16.376 141.864 17.272C141.096 18.1253 140.434 19.1493 139.88 20.344C139.368 21.5387 139.005 22.8187 138.792 24.184H156.52Z" fill="#0019FB" fillOpacity="0.57"/>
         </svg>
+        <div className="flex flex-col">
+          <Link href="/workflow" className="text-sm text-gray-500 hover:text-gray-800">
+            &larr; All workflows
+          </Link>
+          {name && <span className="font-medium text-gray-800">{name}</span>}
+        </div>
+        </div>
+        <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+          className="px-4 py-2 bg-white border border-gray-200 text-gray-700 font-medium
+            hover:bg-gray-50 transition-colors duration-150 flex items-center gap-2 shadow-sm"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          History
+        </button>
+        <button
+          onClick={() => setIsAssistantOpen(!isAssistantOpen)}
+          className="px-4 py-2 bg-white border border-gray-200 text-gray-700 font-medium
+            hover:bg-gray-50 transition-colors duration-150 flex items-center gap-2 shadow-sm"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+          </svg>
+          Assistant
+        </button>
         {workflowSteps.length > 0 && (
           <button
             onClick={runAll}
@@ -426,7 +886,31 @@ export function WorkflowBuilder() {
             {isRunningAll ? 'Running All...' : 'Run All Steps'}
           </button>
         )}
+        </div>
       </div>
+      {conflict && (
+        <div className="w-full max-w-[800px] px-4 py-3 bg-amber-50 border border-amber-300
+          text-amber-800 text-sm flex items-center justify-between gap-4">
+          <span>
+            This workflow was saved from somewhere else at {new Date(conflict.updatedAt).toLocaleString()}.
+            Changes here aren&apos;t being saved to the server.
+          </span>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={handleLoadLatest}
+              className="px-3 py-1 bg-white border border-amber-300 hover:bg-amber-100 transition-colors duration-150"
+            >
+              Load theirs
+            </button>
+            <button
+              onClick={handleKeepMine}
+              className="px-3 py-1 bg-white border border-amber-300 hover:bg-amber-100 transition-colors duration-150"
+            >
+              Keep mine
+            </button>
+          </div>
+        </div>
+      )}
       {showInitialButton && (
         <button
           onClick={handleCreateInitialSheet}
@@ -441,13 +925,62 @@ export function WorkflowBuilder() {
           Add Single Sheet
         </button>
       )}
+      {showInitialButton && (
+        <button
+          onClick={() => setIsImportOpen(true)}
+          className="w-48 p-3 bg-white shadow-sm hover:shadow-md
+            border border-gray-200 text-gray-700 font-medium
+            transition-all duration-150 flex items-center gap-2"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+              d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M12 4v12m0 0l-4-4m4 4l4-4" />
+          </svg>
+          Import File
+        </button>
+      )}
+      {isImportOpen && (
+        <CsvImport
+          sheetHeaders={[]}
+          allowGrouping
+          onImport={handleImportFile}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      <WorkflowAssistant
+        isOpen={isAssistantOpen}
+        onClose={() => setIsAssistantOpen(false)}
+        workflowId={workflowId}
+        steps={describeSteps()}
+        onAcceptProposal={handleAcceptProposal}
+        onRestoreSteps={handleRestoreSteps}
+      />
+
+      <HistoryPanel
+        history={historyRef.current}
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+      />
+
+      {snapshotStepIndex !== null && workflowSteps[snapshotStepIndex] && (
+        <SnapshotViewer
+          workflowId={workflowId}
+          stepId={workflowSteps[snapshotStepIndex].id}
+          title={stepsRefs.current[snapshotStepIndex]?.current?.getTitle?.() || `Step ${snapshotStepIndex + 1}`}
+          onRestore={(snapshot: Snapshot) => stepsRefs.current[snapshotStepIndex]?.current?.restoreSnapshot?.(snapshot)}
+          onClose={() => setSnapshotStepIndex(null)}
+        />
+      )}
 
       {/* Workflow Steps */}
-      <div className="w-full max-w-[800px] flex flex-col gap-8">
-        {workflowSteps.map((step, index) => (
-          renderStep(step, index))
-        )}
-      </div>
+      <HistoryContext.Provider value={historyRef.current}>
+        <div className="w-full max-w-[800px] flex flex-col gap-8">
+          {workflowSteps.map((step, index) => (
+            renderStep(step, index))
+          )}
+        </div>
+      </HistoryContext.Provider>
     </div>
   );
 } 
\ No newline at end of file
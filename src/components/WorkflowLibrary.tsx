@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { WorkflowSummary } from '@/lib/workflowStore';
+import { SpreadsheetStorage } from '@/lib/storage';
+import { deleteConversations } from '@/lib/conversations';
+
+// Remembered in the browser and stamped on the workflows created from it
+const OWNER_KEY = 'workflow_owner';
+
+const formatTime = (time?: string) => time ? new Date(time).toLocaleString() : 'Never';
+
+export function WorkflowLibrary() {
+  const router = useRouter();
+  const [workflows, setWorkflows] = useState<WorkflowSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [owner, setOwner] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const loadWorkflows = async () => {
+    try {
+      const response = await fetch('/api/workflows');
+      if (!response.ok) throw new Error('Failed to load workflows');
+      const data = await response.json();
+      setWorkflows(data.workflows);
+      setError(null);
+    } catch (error) {
+      console.error('Error loading workflows:', error);
+      setError('Could not load the saved workflows.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setOwner(localStorage.getItem(OWNER_KEY) || '');
+    loadWorkflows();
+  }, []);
+
+  const handleOwnerChange = (value: string) => {
+    setOwner(value);
+    localStorage.setItem(OWNER_KEY, value);
+  };
+
+  // Sends a change to the workflow routes, then reloads the list
+  const request = async (url: string, method: string, body?: object) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body && JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Failed to ${method} ${url}`);
+      return data;
+    } catch (error) {
+      console.error('Error updating workflows:', error);
+      setError('That change could not be saved.');
+    } finally {
+      loadWorkflows();
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request('/api/workflows', 'POST', { name: newName, owner });
+    if (data?.workflow) {
+      router.push(`/workflow/${data.workflow.id}`);
+    }
+  };
+
+  const handleRename = async (workflow: WorkflowSummary) => {
+    setEditingId(null);
+    if (!editingName.trim() || editingName.trim() === workflow.name) return;
+    await request(`/api/workflows/${workflow.id}`, 'PATCH', { name: editingName });
+  };
+
+  const handleDelete = async (workflow: WorkflowSummary) => {
+    if (!confirm(`Delete "${workflow.name}"? Its sheets and results can't be recovered.`)) return;
+    const data = await request(`/api/workflows/${workflow.id}`, 'DELETE');
+    // Kept when the delete failed, as they may be the only other copy
+    if (!data?.success) return;
+    // The copies kept in this browser would otherwise bring it back
+    new SpreadsheetStorage().deleteWorkflow(workflow.id);
+    deleteConversations(workflow.id);
+  };
+
+  const visible = workflows.filter(workflow => showArchived || !workflow.archived);
+  const archivedCount = workflows.filter(workflow => workflow.archived).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8 flex flex-col items-center gap-8">
+      <div className="w-full max-w-[1000px] flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-gray-800">Workflows</h1>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Your name
+          <input
+            value={owner}
+            onChange={(e) => handleOwnerChange(e.target.value)}
+            placeholder="Owner of new workflows"
+            className="px-2 py-1 border border-gray-200 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
+          />
+        </label>
+      </div>
+
+      <form onSubmit={handleCreate} className="w-full max-w-[1000px] flex gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name of the new workflow"
+          className="flex-1 px-3 py-2 border border-gray-200 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-indigo-500 text-white font-medium
+            hover:bg-indigo-600 transition-colors duration-150 shadow-sm"
+        >
+          New Workflow
+        </button>
+      </form>
+
+      {error && (
+        <div className="w-full max-w-[1000px] px-4 py-3 bg-red-50 border border-red-200 text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="w-full max-w-[1000px] bg-white border border-gray-200/80 shadow-sm">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-2 font-medium">Name</th>
+              <th className="px-4 py-2 font-medium">Owner</th>
+              <th className="px-4 py-2 font-medium">Last run</th>
+              <th className="px-4 py-2 font-medium">Rows per step</th>
+              <th className="px-4 py-2 font-medium">Saved</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(workflow => (
+              <tr key={workflow.id} className={`border-t border-gray-100 ${workflow.archived ? 'text-gray-400' : 'text-gray-700'}`}>
+                <td className="px-4 py-2">
+                  {editingId === workflow.id ? (
+                    <input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={() => handleRename(workflow)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(workflow);
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full px-2 py-1 border border-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
+                    />
+                  ) : (
+                    <Link href={`/workflow/${workflow.id}`} className="font-medium text-indigo-600 hover:underline">
+                      {workflow.name}
+                    </Link>
+                  )}
+                  {workflow.archived && <span className="ml-2 text-xs">(archived)</span>}
+                </td>
+                <td className="px-4 py-2">{workflow.owner || '-'}</td>
+                <td className="px-4 py-2">{formatTime(workflow.lastRunAt)}</td>
+                <td className="px-4 py-2">{workflow.rowCounts.length > 0 ? workflow.rowCounts.join(' / ') : 'No steps'}</td>
+                <td className="px-4 py-2">{formatTime(workflow.updatedAt)}</td>
+                <td className="px-4 py-2">
+                  <div className="flex justify-end gap-2 text-xs">
+                    <button
+                      onClick={() => {
+                        setEditingId(workflow.id);
+                        setEditingName(workflow.name);
+                      }}
+                      className="hover:text-indigo-600"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => request('/api/workflows', 'POST', { duplicateOf: workflow.id, owner: owner || undefined })}
+                      className="hover:text-indigo-600"
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      onClick={() => request(`/api/workflows/${workflow.id}`, 'PATCH', { archived: !workflow.archived })}
+                      className="hover:text-indigo-600"
+                    >
+                      {workflow.archived ? 'Unarchive' : 'Archive'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(workflow)}
+                      className="hover:text-red-600"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {!isLoading && visible.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                  No workflows yet. Name one above to get started.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {archivedCount > 0 && (
+        <button
+          onClick={() => setShowArchived(!showArchived)}
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+        </button>
+      )}
+    </div>
+  );
+}
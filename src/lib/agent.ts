@@ -1,6 +1,8 @@
-import fs from 'fs';
-import path from 'path';
-import crypto from 'crypto';
+import { LEGACY_NAMESPACE, cacheGet, cacheInspect, cacheKey, cacheList, cachePurge, cachePut, cacheSet } from './cache';
+import { FieldBasis } from './provenance';
+import { JSONSchema } from './schema';
+import { schedule } from './scheduler';
+import { TaskRegistry, taskRegistry } from './taskRegistry';
 
 interface TaskRequest {
   name: string;
@@ -21,20 +23,24 @@ interface TaskRequest {
   output_schema: {
     type: string;
     properties: {
-      [key: string]: {
-        type: string;
-        description?: string;
-      };
+      [key: string]: JSONSchema;
     };
     required?: string[];
     additionalProperties?: boolean;
   };
 }
 
+export type TaskStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
 interface TaskResponse {
   task_id: string;
-  status: string;
+  execution_id?: string;
+  status: TaskStatus;
   output?: any;
+  error?: string;
+  // Evidence per output field, when the backend reports it
+  basis?: FieldBasis[];
+  completed_at?: string;
 }
 
 interface AgentResponse {
@@ -42,35 +48,87 @@ interface AgentResponse {
   fromCache: boolean;
 }
 
-interface CacheEntry {
-  data: any;
+interface AgentOptions {
+  // Skip any cached response and store the fresh one in its place
+  bypassCache?: boolean;
+  // Aborts in-flight requests and stops polling
+  signal?: AbortSignal;
+  // Called whenever the execution reports a new status while being polled
+  onProgress?: (execution: TaskResponse) => void;
+}
+
+// Per-request settings for agent(); shouldCache decides whether a response is final enough to keep
+interface RequestOptions {
+  bypassCache?: boolean;
+  signal?: AbortSignal;
+  shouldCache?: (data: unknown) => boolean;
+  // Scheduler key the call waits its turn under; defaults to the task backend's
+  queue?: string;
+}
+
+// Shape of agent cache files written before the cache was namespaced
+interface LegacyCacheEntry {
+  data: unknown;
   url: string;
   options: RequestInit;
   timestamp: string;
   expiresAt: string;
 }
 
-const PARALLEL_URL = "https://localhost:8000/api";
-const PARALLEL_API_KEY = process.env.PARALLEL_API_KEY;
-const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+class HTTPError extends Error {
+  status: number;
 
-if (!PARALLEL_API_KEY) {
-  throw new Error("PARALLEL_API_KEY environment variable is not set");
+  constructor(status: number) {
+    super(`HTTP error! status: ${status}`);
+    this.status = status;
+  }
 }
 
-export async function createAndExecuteTask(taskRequest: TaskRequest, inputs: any): Promise<TaskResponse> {
-  // First create the task
-  const createUrl = `${PARALLEL_URL}/v0/tasks`;
+interface TaskBackend {
+  url: string;
+  apiKey: string;
+}
+
+const PARALLEL_URL = process.env.PARALLEL_API_URL || "https://localhost:8000/api";
+// Path of the bundled stand-in backend (src/app/api/local-tasks), which needs no key
+const LOCAL_TASKS_PATH = '/api/local-tasks';
+
+export const DEFAULT_TASK_MODEL = process.env.PARALLEL_DEFAULT_MODEL || "neon";
+export const FINDALL_TASK_MODEL = process.env.PARALLEL_FINDALL_MODEL || "rhodium";
+const TASK_TIMEOUT_MS = parseInt(process.env.TASK_TIMEOUT_MS || String(60 * 60 * 1000), 10); // 1 hour
+const POLL_INTERVAL_MS = 1000;
+const MAX_POLL_INTERVAL_MS = 10000;
+const LONG_POLL_SECONDS = 30;
+const TERMINAL_STATUSES: TaskStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Checked when a task actually runs rather than at import, so routes that
+// never touch the task backend work without it being configured
+function getTaskBackend(): TaskBackend {
+  const apiKey = process.env.PARALLEL_API_KEY;
+  if (!apiKey && !PARALLEL_URL.includes(LOCAL_TASKS_PATH)) {
+    throw new Error("PARALLEL_API_KEY environment variable is not set");
+  }
+  return { url: PARALLEL_URL, apiKey: apiKey || 'local' };
+}
+
+export async function createAndExecuteTask(
+  taskRequest: TaskRequest,
+  inputs: any,
+  agentOptions: AgentOptions = {}
+): Promise<TaskResponse> {
+  const backend = getTaskBackend();
+
+  // First create the task, or reuse the one registered for this exact definition
   const createOptions = {
     method: 'POST',
     headers: {
-      'x-api-key': PARALLEL_API_KEY as string,
+      'x-api-key': backend.apiKey,
       'Content-Type': 'application/json'
     },
     body: JSON.stringify({
       name: taskRequest.name,
       description: taskRequest.description,
-      model: taskRequest.model || "neon", // Default to neon model
+      model: taskRequest.model || DEFAULT_TASK_MODEL,
       prompt: taskRequest.prompt,
       input_schema: {
         type: "object",
@@ -87,15 +145,15 @@ export async function createAndExecuteTask(taskRequest: TaskRequest, inputs: any
     })
   };
 
-  const createResponse = await agent(createUrl, createOptions);
-  const taskId = createResponse.data.task_id;
+  const hash = TaskRegistry.hashDefinition(backend.url, createOptions.body);
+  const registered = taskRegistry.get(hash);
+  let taskId = registered?.taskId || await createTask(backend, createOptions, hash, taskRequest);
 
   // Then execute it with the inputs
-  const executeUrl = `${PARALLEL_URL}/v0/tasks/${taskId}/executions`;
   const executeOptions = {
     method: 'POST',
     headers: {
-      'x-api-key': PARALLEL_API_KEY as string,
+      'x-api-key': backend.apiKey,
       'Content-Type': 'application/json'
     },
     body: JSON.stringify({
@@ -103,71 +161,270 @@ export async function createAndExecuteTask(taskRequest: TaskRequest, inputs: any
     })
   };
 
-  const executeResponse = await agent(executeUrl, executeOptions);
-  return executeResponse.data;
-}
+  // Only a successful execution is worth caching; unfinished ones get polled below
+  // and failed or cancelled ones should run again next time
+  const executionsUrl = (id: string) => `${backend.url}/v0/tasks/${id}/executions`;
+  const execute = (id: string) => agent(executionsUrl(id), executeOptions, {
+    ...agentOptions,
+    shouldCache: (data) => isSuccessful(data as TaskResponse)
+  });
 
-async function agent(url: string, options: RequestInit = {}): Promise<AgentResponse> {
-  // Create cache directory if it doesn't exist
-  const cacheDir = path.join(process.cwd(), '.cache');
-  if (!fs.existsSync(cacheDir)) {
-    fs.mkdirSync(cacheDir, { recursive: true });
+  let executeResponse: AgentResponse;
+  try {
+    executeResponse = await execute(taskId);
+  } catch (error) {
+    // The backend no longer knows a task we registered earlier, so recreate it once
+    if (!registered || !(error instanceof HTTPError) || error.status !== 404) {
+      throw error;
+    }
+    taskRegistry.remove(hash);
+    taskId = await createTask(backend, createOptions, hash, taskRequest);
+    executeResponse = await execute(taskId);
   }
-  // Generate cache key from url and options
-  const cacheKey = crypto
-    .createHash('md5')
-    .update(`${url}${JSON.stringify(options)}`)
-    .digest('hex');
-  const cachePath = path.join(cacheDir, `${cacheKey}.json`);
+  taskRegistry.recordUse(hash);
 
-  // Check cache
-  if (fs.existsSync(cachePath)) {
-    const cached = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as CacheEntry;
-    
-    // Check if cache is still valid
-    if (new Date(cached.expiresAt) > new Date()) {
-      return {
-        data: cached.data,
-        fromCache: true
-      };
-    } else {
-      // Cache expired, delete it
-      fs.unlinkSync(cachePath);
+  let execution = executeResponse.data as TaskResponse;
+
+  if (!isFinished(execution)) {
+    execution = await pollExecution(backend, taskId, execution, agentOptions);
+    if (isSuccessful(execution)) {
+      cacheResponse(executionsUrl(taskId), executeOptions, execution);
     }
   }
 
-  // Make HTTP request with timeout
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 600000); // 10 minute timeout
-  
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal
+  if (execution.status === 'failed' || execution.status === 'cancelled') {
+    throw new Error(`Task ${taskId} ${execution.status}: ${execution.error || 'no details'}`);
+  }
+  // Some backends nest the basis inside the output
+  if (!execution.basis && Array.isArray(execution.output?.basis)) {
+    execution.basis = execution.output.basis;
+  }
+  return execution;
+}
+
+// Creations still waiting on the backend by definition hash, so rows running the
+// same new definition at once share one task instead of each creating their own
+const pendingCreations = new Map<string, Promise<string>>();
+
+function createTask(
+  backend: TaskBackend,
+  createOptions: RequestInit,
+  hash: string,
+  taskRequest: TaskRequest
+): Promise<string> {
+  const pending = pendingCreations.get(hash);
+  if (pending) return pending;
+
+  const creation = requestTaskCreation(backend, createOptions, hash, taskRequest)
+    .finally(() => pendingCreations.delete(hash));
+  pendingCreations.set(hash, creation);
+  return creation;
+}
+
+// Not tied to any one caller's abort signal, since other callers may be waiting on it
+async function requestTaskCreation(
+  backend: TaskBackend,
+  createOptions: RequestInit,
+  hash: string,
+  taskRequest: TaskRequest
+): Promise<string> {
+  // The registry is the record of created tasks, so the response itself isn't cached
+  const createResponse = await agent(`${backend.url}/v0/tasks`, createOptions, {
+    bypassCache: true,
+    shouldCache: () => false
+  });
+  const taskId = createResponse.data.task_id as string;
+  taskRegistry.register(hash, taskId, backend.url, {
+    name: taskRequest.name,
+    description: taskRequest.description,
+    model: taskRequest.model || DEFAULT_TASK_MODEL
+  });
+  return taskId;
+}
+
+export function listKnownTasks() {
+  return taskRegistry.list();
+}
+
+// Backends that answer synchronously return the output without a status
+function isFinished(execution: TaskResponse): boolean {
+  return TERMINAL_STATUSES.includes(execution.status) || (!execution.status && execution.output !== undefined);
+}
+
+function isSuccessful(execution: TaskResponse): boolean {
+  return execution.status === 'completed' || (!execution.status && execution.output !== undefined);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timeoutId);
+      reject(new Error('Task polling aborted'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+// Long-polls the execution until it reaches a terminal state. Servers that
+// ignore the wait parameter answer straight away, so we also back off between polls.
+async function pollExecution(backend: TaskBackend, taskId: string, execution: TaskResponse, agentOptions: AgentOptions): Promise<TaskResponse> {
+  const executionId = execution.execution_id;
+  if (!executionId) {
+    throw new Error(`Task ${taskId} returned status "${execution.status}" without an execution id to poll`);
+  }
+
+  const pollUrl = `${backend.url}/v0/tasks/${taskId}/executions/${executionId}?wait=${LONG_POLL_SECONDS}`;
+  const pollOptions = {
+    method: 'GET',
+    headers: {
+      'x-api-key': backend.apiKey
+    }
+  };
+  const deadline = Date.now() + TASK_TIMEOUT_MS;
+  let interval = POLL_INTERVAL_MS;
+
+  agentOptions.onProgress?.(execution);
+
+  while (!isFinished(execution)) {
+    if (Date.now() > deadline) {
+      throw new Error(`Task ${taskId} did not finish within ${TASK_TIMEOUT_MS / 1000}s (last status: ${execution.status})`);
+    }
+    await sleep(interval, agentOptions.signal);
+    interval = Math.min(interval * 1.5, MAX_POLL_INTERVAL_MS);
+
+    const previousStatus = execution.status;
+    // Long-polls wait on the server for up to LONG_POLL_SECONDS, so they queue
+    // separately rather than holding slots that task creations need
+    const pollResponse = await agent(pollUrl, pollOptions, {
+      bypassCache: true,
+      signal: agentOptions.signal,
+      shouldCache: () => false,
+      queue: 'task_polls'
     });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    execution = pollResponse.data as TaskResponse;
+
+    if (execution.status !== previousStatus) {
+      agentOptions.onProgress?.(execution);
     }
-    
-    const data = await response.json();
-
-    // Cache the response with expiration
-    const cacheEntry: CacheEntry = {
-      data,
-      url,
-      options,
-      timestamp: new Date().toISOString(),
-      expiresAt: new Date(Date.now() + CACHE_DURATION).toISOString()
-    };
+  }
+
+  return execution;
+}
 
-    fs.writeFileSync(cachePath, JSON.stringify(cacheEntry, null, 2));
+async function agent(url: string, options: RequestInit = {}, requestOptions: RequestOptions = {}): Promise<AgentResponse> {
+  migrateCache();
 
+  // Generate cache key from the request itself, never its headers
+  const key = requestCacheKey(url, options);
+
+  // Check cache
+  const cached = requestOptions.bypassCache ? undefined : cacheGet('tasks', key);
+  if (cached !== undefined) {
     return {
-      data,
-      fromCache: false
+      data: cached,
+      fromCache: true
     };
-  } finally {
-    clearTimeout(timeoutId);
   }
+
+  // Make HTTP request with timeout, queued behind other task calls and retried on 429/5xx
+  const data = await schedule(requestOptions.queue || 'tasks', async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 600000); // 10 minute timeout
+    const abort = () => controller.abort();
+    requestOptions.signal?.addEventListener('abort', abort);
+
+    try {
+      const response = await fetch(url, {
+        ...options,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new HTTPError(response.status);
+      }
+
+      return await response.json();
+    } finally {
+      clearTimeout(timeoutId);
+      requestOptions.signal?.removeEventListener('abort', abort);
+    }
+  });
+
+  if (!requestOptions.shouldCache || requestOptions.shouldCache(data)) {
+    cacheResponse(url, options, data);
+  }
+
+  return {
+    data,
+    fromCache: false
+  };
+}
+
+// Stores a response; expiry is set by the tasks namespace TTL
+function cacheResponse(url: string, options: RequestInit, data: unknown) {
+  cacheSet('tasks', requestCacheKey(url, options), data, describeRequest(url, options));
+}
+
+// Keys only on what determines the answer: method, URL path and body. Headers
+// carry the API key, so rotating it no longer invalidates the cache.
+function requestCacheKey(url: string, options: RequestInit): string {
+  const { pathname, search } = new URL(url);
+  return cacheKey(`${options.method || 'GET'} ${pathname}${search} ${options.body ?? ''}`);
+}
+
+// What gets stored alongside a cached response for inspection, with credentials left out
+function describeRequest(url: string, options: RequestInit): Record<string, unknown> {
+  const { pathname, search } = new URL(url);
+  return {
+    method: options.method || 'GET',
+    path: `${pathname}${search}`,
+    body: typeof options.body === 'string' ? JSON.parse(options.body) : undefined
+  };
+}
+
+let cacheMigrated = false;
+
+// Rewrites agent cache entries from older versions, which were keyed on and
+// stored the full request options including the x-api-key header. Runs once
+// per server process and returns how many entries were rewritten.
+export function migrateCache(): number {
+  if (cacheMigrated) return 0;
+  cacheMigrated = true;
+
+  let migrated = 0;
+
+  // Files in the cache root from before namespacing
+  cacheList(LEGACY_NAMESPACE).forEach(summary => {
+    const entry = cacheInspect(LEGACY_NAMESPACE, summary.key) as unknown as LegacyCacheEntry;
+    if (!entry?.url || !entry.options) return; // Not an agent entry
+
+    cachePut('tasks', requestCacheKey(entry.url, entry.options), {
+      data: entry.data,
+      createdAt: entry.timestamp,
+      expiresAt: entry.expiresAt,
+      meta: describeRequest(entry.url, entry.options)
+    });
+    cachePurge({ namespace: LEGACY_NAMESPACE, key: summary.key });
+    migrated++;
+  });
+
+  // Namespaced entries that still carry the old meta with headers
+  cacheList('tasks').forEach(summary => {
+    const entry = cacheInspect('tasks', summary.key);
+    const meta = entry?.meta as { url?: string; options?: RequestInit } | undefined;
+    if (!entry || !meta?.url || !meta.options) return;
+
+    const key = requestCacheKey(meta.url, meta.options);
+    cachePut('tasks', key, { ...entry, meta: describeRequest(meta.url, meta.options) });
+    if (key !== summary.key) {
+      cachePurge({ namespace: 'tasks', key: summary.key });
+    }
+    migrated++;
+  });
+
+  return migrated;
 }
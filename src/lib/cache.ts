@@ -0,0 +1,187 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  createdAt: string;
+  expiresAt: string;
+  // Free-form details about what produced the entry, shown when inspecting
+  meta?: Record<string, unknown>;
+}
+
+export interface CacheEntrySummary {
+  namespace: string;
+  key: string;
+  size: number;
+  createdAt?: string;
+  expiresAt?: string;
+  lastAccessed: string;
+  expired: boolean;
+}
+
+interface PurgeOptions {
+  namespace?: string;
+  key?: string;
+  expiredOnly?: boolean;
+}
+
+const CACHE_DIR = path.join(process.cwd(), '.cache');
+const HOUR = 60 * 60 * 1000;
+
+// Files written before namespacing sit directly in .cache and are reported under this name
+export const LEGACY_NAMESPACE = 'legacy';
+
+const DEFAULT_TTLS: { [namespace: string]: number } = {
+  llm: 30 * 24 * HOUR,
+  tasks: 24 * HOUR,
+};
+const DEFAULT_MAX_MB = 200;
+
+// CACHE_TTL_HOURS_<NAMESPACE> and CACHE_MAX_MB_<NAMESPACE> override the defaults per namespace
+function ttlFor(namespace: string): number {
+  const override = process.env[`CACHE_TTL_HOURS_${namespace.toUpperCase()}`];
+  if (override) return parseFloat(override) * HOUR;
+  return DEFAULT_TTLS[namespace] ?? 24 * HOUR;
+}
+
+function maxBytesFor(namespace: string): number {
+  const override = process.env[`CACHE_MAX_MB_${namespace.toUpperCase()}`] || process.env.CACHE_MAX_MB;
+  return (override ? parseFloat(override) : DEFAULT_MAX_MB) * 1024 * 1024;
+}
+
+// Namespaces and keys become directory and file names, so they can't reach outside .cache
+export function isValidCacheName(name: string): boolean {
+  return /^[a-zA-Z0-9_-]+$/.test(name);
+}
+
+function namespaceDir(namespace: string): string {
+  if (!isValidCacheName(namespace)) {
+    throw new Error(`Invalid cache namespace: ${namespace}`);
+  }
+  return namespace === LEGACY_NAMESPACE ? CACHE_DIR : path.join(CACHE_DIR, namespace);
+}
+
+function entryPath(namespace: string, key: string): string {
+  if (!isValidCacheName(key)) {
+    throw new Error(`Invalid cache key: ${namespace}/${key}`);
+  }
+  return path.join(namespaceDir(namespace), `${key}.json`);
+}
+
+function listFiles(namespace: string): string[] {
+  const dir = namespaceDir(namespace);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).filter(file => file.endsWith('.json'));
+}
+
+function isExpired(entry: Partial<CacheEntry>): boolean {
+  return !!entry.expiresAt && new Date(entry.expiresAt) <= new Date();
+}
+
+export function cacheKey(input: string): string {
+  return crypto.createHash('md5').update(input).digest('hex');
+}
+
+export function listNamespaces(): string[] {
+  if (!fs.existsSync(CACHE_DIR)) return [];
+  const namespaces = fs.readdirSync(CACHE_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name);
+  return listFiles(LEGACY_NAMESPACE).length > 0 ? [...namespaces, LEGACY_NAMESPACE] : namespaces;
+}
+
+export function cacheGet<T>(namespace: string, key: string): T | undefined {
+  const filePath = entryPath(namespace, key);
+  if (!fs.existsSync(filePath)) return undefined;
+
+  const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry<T>;
+  if (isExpired(entry)) {
+    fs.unlinkSync(filePath);
+    return undefined;
+  }
+
+  // Touch the file so eviction sees it as recently used
+  const now = new Date();
+  fs.utimesSync(filePath, now, now);
+  return entry.data;
+}
+
+export function cacheSet<T>(namespace: string, key: string, data: T, meta?: Record<string, unknown>) {
+  cachePut(namespace, key, {
+    data,
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + ttlFor(namespace)).toISOString(),
+    meta
+  });
+}
+
+// Writes a complete entry as-is, keeping its timestamps; used when migrating old entries
+export function cachePut<T>(namespace: string, key: string, entry: CacheEntry<T>) {
+  const dir = namespaceDir(namespace);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(entryPath(namespace, key), JSON.stringify(entry, null, 2));
+  evict(namespace);
+}
+
+// Drops the least recently used entries until the namespace fits its size budget
+function evict(namespace: string) {
+  const dir = namespaceDir(namespace);
+  const files = listFiles(namespace).map(file => {
+    const filePath = path.join(dir, file);
+    return { filePath, stat: fs.statSync(filePath) };
+  });
+
+  let total = files.reduce((sum, file) => sum + file.stat.size, 0);
+  const budget = maxBytesFor(namespace);
+  if (total <= budget) return;
+
+  files.sort((a, b) => a.stat.mtimeMs - b.stat.mtimeMs);
+  for (const file of files) {
+    if (total <= budget) break;
+    fs.unlinkSync(file.filePath);
+    total -= file.stat.size;
+  }
+}
+
+export function cacheList(namespace?: string): CacheEntrySummary[] {
+  const namespaces = namespace ? [namespace] : listNamespaces();
+
+  return namespaces.flatMap(ns => listFiles(ns).map(file => {
+    const filePath = path.join(namespaceDir(ns), file);
+    const stat = fs.statSync(filePath);
+    let entry: Partial<CacheEntry> = {};
+    try {
+      entry = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      // Unreadable entries are still listed so they can be purged
+    }
+    return {
+      namespace: ns,
+      key: file.replace(/\.json$/, ''),
+      size: stat.size,
+      createdAt: entry.createdAt,
+      expiresAt: entry.expiresAt,
+      lastAccessed: stat.mtime.toISOString(),
+      expired: isExpired(entry)
+    };
+  }));
+}
+
+export function cacheInspect(namespace: string, key: string): CacheEntry | undefined {
+  const filePath = entryPath(namespace, key);
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry;
+}
+
+// Removes matching entries and returns how many were deleted
+export function cachePurge({ namespace, key, expiredOnly }: PurgeOptions = {}): number {
+  const targets = cacheList(namespace).filter(entry =>
+    (!key || entry.key === key) && (!expiredOnly || entry.expired)
+  );
+  targets.forEach(entry => fs.unlinkSync(entryPath(entry.namespace, entry.key)));
+  return targets.length;
+}
@@ -0,0 +1,233 @@
+import type { JSONSchema } from './schema';
+
+// Shared by the spreadsheet components and the runCells route, so this module must stay free of Node-only imports
+
+export type ColumnType = 'text' | 'number' | 'boolean' | 'date' | 'enum' | 'list' | 'url';
+
+export interface ColumnSpec {
+  type: ColumnType;
+  description?: string;
+  // Allowed values for enum columns
+  options?: string[];
+  // Per-row instruction; {{Header}} is replaced with that column's value in the same row
+  instruction?: string;
+  // Headers of other columns that must be filled first, on top of those the instruction references
+  dependsOn?: string[];
+  // Filled by Run Find along with the entities, instead of by a separate Run Cells pass
+  fromFind?: boolean;
+}
+
+export const COLUMN_TYPES: { type: ColumnType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'boolean', label: 'Yes / No' },
+  { type: 'date', label: 'Date' },
+  { type: 'enum', label: 'Choice' },
+  { type: 'list', label: 'List' },
+  { type: 'url', label: 'URL' },
+];
+
+// Cells only hold strings, so list items are joined with this
+export const LIST_SEPARATOR = '; ';
+
+export function defaultColumnSpec(): ColumnSpec {
+  return { type: 'text' };
+}
+
+// Column specs are kept alongside headers by index; missing entries are plain text
+export function specAt(specs: ColumnSpec[] | undefined, colIndex: number): ColumnSpec {
+  return specs?.[colIndex] || defaultColumnSpec();
+}
+
+export function splitList(value: string): string[] {
+  return value.split(/\s*[;\n]\s*/).map(item => item.trim()).filter(Boolean);
+}
+
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Column names referenced by a template, in order of first use
+export function templateReferences(template: string): string[] {
+  const names = Array.from(template.matchAll(TEMPLATE_PATTERN), match => match[1]);
+  return names.filter((name, index) => names.indexOf(name) === index);
+}
+
+// Values of one row keyed by header, for filling templates
+export function rowContext(headers: string[], row: Array<{ value: string }>): { [header: string]: string } {
+  return headers.reduce((acc, header, index) => {
+    acc[header] = row[index]?.value || '';
+    return acc;
+  }, {} as { [header: string]: string });
+}
+
+// Headers are matched exactly first, then ignoring case; unknown references are left in place
+export function findHeader(name: string, headers: string[]): string | undefined {
+  return headers.find(header => header === name)
+    || headers.find(header => header.toLowerCase() === name.toLowerCase());
+}
+
+export function renderTemplate(template: string, context: { [header: string]: string }): string {
+  return template.replace(TEMPLATE_PATTERN, (match, name) => {
+    const header = findHeader(name, Object.keys(context));
+    return header !== undefined ? context[header] : match;
+  });
+}
+
+// Enrichment columns each one waits for, from its instruction's references and explicit links.
+// The first column is the row's input and is always available, so it never counts as a dependency.
+export function columnDependencies(headers: string[], specs: ColumnSpec[] | undefined): { [header: string]: string[] } {
+  const enrichment = headers.slice(1);
+
+  return enrichment.reduce((acc, header, index) => {
+    const spec = specAt(specs, index + 1);
+    const names = [...templateReferences(spec.instruction || ''), ...(spec.dependsOn || [])];
+    const dependencies = names
+      .map(name => findHeader(name, enrichment))
+      .filter((name): name is string => !!name && name !== header);
+    acc[header] = dependencies.filter((name, i) => dependencies.indexOf(name) === i);
+    return acc;
+  }, {} as { [header: string]: string[] });
+}
+
+// Groups the enrichment columns into levels that can run together, each level
+// only depending on earlier ones. Columns caught in a cycle, or waiting on
+// one, can never run and are returned as blocked.
+export function dependencyLevels(headers: string[], specs: ColumnSpec[] | undefined): { levels: string[][]; blocked: string[] } {
+  const dependencies = columnDependencies(headers, specs);
+  const done = new Set<string>();
+  const levels: string[][] = [];
+  let remaining = Object.keys(dependencies);
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(header => dependencies[header].every(name => done.has(name)));
+    if (ready.length === 0) break;
+    levels.push(ready);
+    ready.forEach(header => done.add(header));
+    remaining = remaining.filter(header => !done.has(header));
+  }
+
+  return { levels, blocked: remaining };
+}
+
+// Short fingerprint of a string; crypto isn't available in this shared module
+function fingerprint(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Identifies everything a column's value was produced from: the row input, the
+// values of the columns it depends on and its own definition. A cell whose
+// stored key no longer matches has stale inputs.
+export function cellInputsKey(header: string, headers: string[], specs: ColumnSpec[] | undefined, context: { [header: string]: string }): string {
+  const spec = specAt(specs, headers.indexOf(header));
+  const dependencies = columnDependencies(headers, specs)[header] || [];
+
+  return fingerprint(JSON.stringify({
+    input: context[headers[0]] || '',
+    dependencies: dependencies.map(name => [name, context[name] || '']),
+    type: spec.type,
+    description: spec.description || '',
+    options: spec.options || [],
+    instruction: spec.instruction ? renderTemplate(spec.instruction, context) : ''
+  }));
+}
+
+// Output schema for one column of a task, carrying the user's description when there is one
+export function columnSchema(name: string, spec: ColumnSpec = defaultColumnSpec()): JSONSchema {
+  const description = spec.description || name;
+
+  switch (spec.type) {
+    case 'number':
+      return { type: 'number', description };
+    case 'boolean':
+      return { type: 'boolean', description };
+    case 'date':
+      return { type: 'string', format: 'date', description: `${description} (YYYY-MM-DD)` };
+    case 'enum':
+      return spec.options?.length
+        ? { type: 'string', enum: spec.options, description }
+        : { type: 'string', description };
+    case 'list':
+      return { type: 'array', items: { type: 'string' }, description };
+    case 'url':
+      return { type: 'string', format: 'uri', description: `${description} (full URL)` };
+    default:
+      return { type: 'string', description };
+  }
+}
+
+function isURL(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// ISO dates keep the day they name; other forms are parsed in local time, so they
+// are read back from local parts rather than shifted by toISOString's UTC
+function formatDate(text: string, date: Date): string {
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})(T|\s|$)/);
+  if (iso) return iso[1];
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Turns a value returned by a task (or typed by hand) into the string stored in
+// the cell. Near misses such as "$1,200" or "Yes" are normalised; anything that
+// still doesn't fit the column type comes back with an error instead.
+export function coerceCellValue(value: unknown, spec: ColumnSpec = defaultColumnSpec()): { value: string; error?: string } {
+  if (value === null || value === undefined || value === '') {
+    return { value: '' };
+  }
+
+  const text = Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value).trim();
+
+  switch (spec.type) {
+    case 'number': {
+      // The whole value has to be the number, so "1.2B" or "12 employees" aren't cut short
+      const cleaned = text.replace(/[$€£,%\s]/g, '');
+      const number = typeof value === 'number' ? value : /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned) ? Number(cleaned) : NaN;
+      return isNaN(number) ? { value: text, error: 'Expected a number' } : { value: String(number) };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value: String(value) };
+      if (/^(true|yes|y|1)$/i.test(text)) return { value: 'true' };
+      if (/^(false|no|n|0)$/i.test(text)) return { value: 'false' };
+      return { value: text, error: 'Expected yes or no' };
+    }
+    case 'date': {
+      const time = Date.parse(text);
+      return isNaN(time)
+        ? { value: text, error: 'Expected a date' }
+        : { value: formatDate(text, new Date(time)) };
+    }
+    case 'enum': {
+      const match = spec.options?.find(option => option.toLowerCase() === text.toLowerCase());
+      if (!spec.options?.length) return { value: text };
+      return match ? { value: match } : { value: text, error: `Expected one of: ${spec.options.join(', ')}` };
+    }
+    case 'list': {
+      const items = Array.isArray(value) ? value.map(item => String(item).trim()) : splitList(text);
+      return { value: items.filter(Boolean).join(LIST_SEPARATOR) };
+    }
+    case 'url': {
+      const url = isURL(text) ? text : `https://${text}`;
+      return isURL(url) && url.includes('.') ? { value: url } : { value: text, error: 'Expected a URL' };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+// Validation message for a value already sitting in a cell, if it doesn't fit the column
+export function cellError(value: string, spec: ColumnSpec = defaultColumnSpec()): string | undefined {
+  if (!value) return undefined;
+  const coerced = coerceCellValue(value, spec);
+  if (coerced.error) return coerced.error;
+  return coerced.value === value ? undefined : `Should be written as ${coerced.value}`;
+}
@@ -0,0 +1,209 @@
+import type { ToolCall } from './tools';
+import type { ProposedStep, WorkflowStep } from './workflow';
+
+export type ConversationSource = 'chat' | 'workflow_assistant';
+
+export interface StoredMessage {
+  id: string;
+  content: string;
+  role: 'user' | 'system';
+  timestamp: number;
+  // Tool calls the assistant made with this reply
+  toolCalls?: ToolCall[];
+  // Steps the workflow assistant proposed in this reply, and what the user did with them
+  proposal?: ProposedStep[];
+  proposalStatus?: 'pending' | 'accepted' | 'dismissed';
+}
+
+// One change an assistant made to the workflow, with what it takes to reverse it
+export interface Mutation {
+  id: string;
+  timestamp: number;
+  source: ConversationSource;
+  // The assistant reply that made the change
+  messageId: string;
+  // The workflow step that changed, when it was a single step
+  stepId?: string;
+  description: string;
+  // Why the assistant made the change, in its own words
+  reason?: string;
+  toolCall?: ToolCall;
+  // A tool call that reverses a chat change, or the steps as they were before a proposal was accepted.
+  // Missing when the change can't be reversed (e.g. deleted values).
+  undo?: { toolCall?: ToolCall; steps?: WorkflowStep[] };
+  undoneAt?: number;
+}
+
+interface ConversationLog {
+  version: number;
+  workflowId: string;
+  // The workflow assistant's conversation, and each sheet's chat keyed by its step id
+  messages: { workflow_assistant: StoredMessage[]; chat: { [stepId: string]: StoredMessage[] } };
+  mutations: Mutation[];
+}
+
+const STORAGE_PREFIX = 'conversations_';
+const LOG_VERSION = 2;
+// Only the latest proposals keep the steps needed to undo them, so the log stays
+// well under the localStorage quota; older ones can't be undone anyway until these are
+const MAX_UNDOABLE_PROPOSALS = 5;
+
+// Conversations with the chat and workflow assistants, and the log of changes
+// they made, kept in localStorage per workflow. The assistant and each open chat
+// have an instance of their own, so the log is read afresh for every read and
+// write and each write only changes its own part.
+export class ConversationStorage {
+  private workflowId: string;
+  // Changes that couldn't be written, kept so they can still be undone until the page is closed
+  private unsaved: Mutation[] = [];
+
+  constructor(workflowId: string) {
+    this.workflowId = workflowId;
+  }
+
+  private get storageKey(): string {
+    return `${STORAGE_PREFIX}${this.workflowId}`;
+  }
+
+  // A log that can't be read, or was written in a format with no upgrade, is started over
+  private loadLog(): ConversationLog {
+    const stored = localStorage.getItem(this.storageKey);
+    if (stored) {
+      try {
+        const log = JSON.parse(stored);
+        if (log?.version === LOG_VERSION) return log;
+        // Version 1 kept one chat conversation for every sheet, which can't be split up again
+        if (log?.version === 1) return { ...log, version: LOG_VERSION, messages: { ...log.messages, chat: {} } };
+        console.warn(`Discarding conversation log with version ${log?.version}`);
+      } catch (error) {
+        console.error('Error reading conversation log:', error);
+      }
+    }
+    return {
+      version: LOG_VERSION,
+      workflowId: this.workflowId,
+      messages: { workflow_assistant: [], chat: {} },
+      mutations: []
+    };
+  }
+
+  // The log as stored, with this instance's unwritten changes put back in
+  private currentLog(): ConversationLog {
+    const log = this.loadLog();
+    const missing = this.unsaved.filter(mutation => !log.mutations.some(m => m.id === mutation.id));
+    if (missing.length > 0) {
+      log.mutations = [...log.mutations, ...missing].sort((a, b) => a.timestamp - b.timestamp);
+    }
+    return log;
+  }
+
+  // Keeps the steps of the latest proposals only; `keep` is how many
+  private pruneUndoSteps(log: ConversationLog, keep: number) {
+    const proposals = log.mutations.filter(mutation => mutation.undo?.steps);
+    proposals.slice(0, Math.max(proposals.length - keep, 0)).forEach(mutation => {
+      mutation.undo = undefined;
+    });
+  }
+
+  // Returns whether the log was written. When it doesn't fit, older undo steps are
+  // dropped and it's tried again.
+  private saveLog(log: ConversationLog): boolean {
+    this.pruneUndoSteps(log, MAX_UNDOABLE_PROPOSALS);
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(log));
+      return true;
+    } catch {
+      const latest = [...log.mutations].reverse().find(mutation => mutation.undo?.steps);
+      const smaller = {
+        ...log,
+        mutations: log.mutations.map(mutation => (
+          mutation.undo?.steps && mutation !== latest ? { ...mutation, undo: undefined } : mutation
+        ))
+      };
+      try {
+        localStorage.setItem(this.storageKey, JSON.stringify(smaller));
+        return true;
+      } catch (error) {
+        console.error('Error saving conversation log:', error);
+        return false;
+      }
+    }
+  }
+
+  // Applies a change to the log as it is stored now, returning whether it was written
+  private update(change: (log: ConversationLog) => void): boolean {
+    const log = this.currentLog();
+    change(log);
+    const saved = this.saveLog(log);
+    if (saved) this.unsaved = [];
+    return saved;
+  }
+
+  // A sheet's chat is kept under its step id
+  getMessages(source: ConversationSource, stepId = ''): StoredMessage[] {
+    const { messages } = this.currentLog();
+    return (source === 'chat' ? messages.chat[stepId] : messages.workflow_assistant) || [];
+  }
+
+  setMessages(source: ConversationSource, messages: StoredMessage[], stepId = '') {
+    this.update(log => {
+      if (source === 'chat') {
+        log.messages.chat[stepId] = messages;
+      } else {
+        log.messages.workflow_assistant = messages;
+      }
+    });
+  }
+
+  // Changes by one assistant, or by the chat of one step
+  getMutations(source?: ConversationSource, stepId?: string): Mutation[] {
+    return this.currentLog().mutations.filter(mutation =>
+      (!source || mutation.source === source) && (stepId === undefined || mutation.stepId === stepId)
+    );
+  }
+
+  // `saved` is false when the change is only logged in memory
+  recordMutation(mutation: Omit<Mutation, 'id' | 'timestamp'>): { entry: Mutation; saved: boolean } {
+    const entry: Mutation = {
+      ...mutation,
+      id: crypto.randomUUID(),
+      timestamp: Date.now()
+    };
+    const saved = this.update(log => {
+      log.mutations.push(entry);
+    });
+    if (!saved) this.unsaved.push(entry);
+    return { entry, saved };
+  }
+
+  markUndone(id: string) {
+    const undoneAt = Date.now();
+    this.unsaved.forEach(mutation => {
+      if (mutation.id === id) mutation.undoneAt = undoneAt;
+    });
+    this.update(log => {
+      const mutation = log.mutations.find(m => m.id === id);
+      if (mutation) mutation.undoneAt = undoneAt;
+    });
+  }
+
+  // The whole log as a JSON document, for download
+  export(): string {
+    return JSON.stringify({ ...this.currentLog(), exportedAt: new Date().toISOString() }, null, 2);
+  }
+}
+
+// Starts a browser download of a workflow's conversations and change log
+export function downloadConversations(storage: ConversationStorage, workflowId: string) {
+  const blob = new Blob([storage.export()], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `conversations-${workflowId}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function deleteConversations(workflowId: string) {
+  localStorage.removeItem(`${STORAGE_PREFIX}${workflowId}`);
+}
@@ -0,0 +1,181 @@
+// Shared by the import dialog and anything else reading delimited files, so this module must stay free of Node-only imports
+
+export const DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+  { value: '|', label: 'Pipe' },
+];
+
+export const ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1'];
+
+export interface DelimitedOptions {
+  delimiter: string;
+  quote: string;
+}
+
+// Where a file column goes: a sheet column by index, a new column, or nowhere
+export type ColumnTarget = number | 'new' | 'skip';
+
+// Decodes a file's bytes. 'auto' follows a byte order mark when there is one and
+// otherwise tries UTF-8, falling back to Windows-1252, which is what spreadsheet
+// programs on Windows usually export.
+export function decodeFile(buffer: ArrayBuffer, encoding = 'auto'): { text: string; encoding: string } {
+  const bytes = new Uint8Array(buffer);
+  if (encoding === 'auto') {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) encoding = 'utf-8';
+    else if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = 'utf-16le';
+    else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = 'utf-16be';
+    else {
+      try {
+        return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+      } catch {
+        encoding = 'windows-1252';
+      }
+    }
+  }
+  // TextDecoder drops the byte order mark itself
+  return { text: new TextDecoder(encoding).decode(bytes), encoding };
+}
+
+// Splits text into rows of fields. A quoted field may hold delimiters, line breaks
+// and doubled quotes; blank lines are dropped.
+function splitRows(text: string, { delimiter, quote }: DelimitedOptions): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === quote && text[i + 1] === quote) {
+        field += quote;
+        i++;
+      } else if (char === quote) {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === quote && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+// The rows of a delimited file, short ones padded to the widest
+export function parseDelimited(text: string, options: DelimitedOptions): string[][] {
+  const rows = splitRows(text, options);
+  const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+  return rows.map(r => [...r, ...Array(width - r.length).fill('')]);
+}
+
+// The delimiter that splits the first lines into the same number of fields, most
+// fields winning; commas when nothing fits
+export function detectDelimiter(text: string, quote = '"'): string {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10).join('\n');
+  let best = { delimiter: ',', width: 1 };
+
+  DELIMITERS.forEach(({ value }) => {
+    const widths = splitRows(sample, { delimiter: value, quote }).map(row => row.length);
+    const consistent = widths.length > 0 && widths.every(width => width === widths[0]);
+    if (consistent && widths[0] > best.width) best = { delimiter: value, width: widths[0] };
+  });
+  return best.delimiter;
+}
+
+// Dates are matched by shape, as Date.parse also accepts headers like "Address 1" or "Founded 2015"
+const DATE_PATTERNS = [
+  /^\d{4}-\d{1,2}-\d{1,2}([T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i,
+  /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/
+];
+
+const looksLikeValue = (value: string) =>
+  /^[-+$€£]?[\d.,]+%?$/.test(value.trim()) || DATE_PATTERNS.some(pattern => pattern.test(value.trim()));
+
+// Whether the first row names the columns: every field filled in, no two alike,
+// and none of them a number or date the way data usually is
+export function detectHeaderRow(rows: string[][]): boolean {
+  const first = rows[0];
+  if (!first || rows.length < 2) return false;
+  const names = first.map(value => value.trim().toLowerCase());
+  return names.every(Boolean)
+    && new Set(names).size === names.length
+    && !first.some(looksLikeValue);
+}
+
+// File columns go to the sheet column with the same header, ignoring case. Without
+// a header row they fill the sheet's columns in order; the rest become new columns.
+export function defaultMapping(fileHeaders: string[], sheetHeaders: string[], hasHeaderRow: boolean): ColumnTarget[] {
+  const normalized = sheetHeaders.map(header => header.trim().toLowerCase());
+  return fileHeaders.map((header, index) => {
+    if (hasHeaderRow) {
+      const match = normalized.indexOf(header.trim().toLowerCase());
+      return match === -1 ? 'new' : match;
+    }
+    return index < sheetHeaders.length ? index : 'new';
+  });
+}
+
+// The sheet's headers with any new columns added, each row laid out under them, and
+// the column each file column ended up in (-1 when skipped)
+export function applyMapping(
+  rows: string[][],
+  fileHeaders: string[],
+  sheetHeaders: string[],
+  mapping: ColumnTarget[]
+): { headers: string[]; rows: string[][]; columns: number[] } {
+  const headers = [...sheetHeaders];
+  const columns = mapping.map((target, index) => {
+    if (target === 'skip') return -1;
+    if (target === 'new') {
+      headers.push(fileHeaders[index] || `Column ${headers.length + 1}`);
+      return headers.length - 1;
+    }
+    return target;
+  });
+
+  return {
+    headers,
+    columns,
+    rows: rows.map(row => {
+      const laidOut: string[] = headers.map(() => '');
+      row.forEach((value, index) => {
+        if (columns[index] !== undefined && columns[index] >= 0) laidOut[columns[index]] = value;
+      });
+      return laidOut;
+    })
+  };
+}
+
+// Rows split by their value in one column, in the order each value first appears
+export function groupRows(rows: string[][], column: number): { key: string; rows: string[][] }[] {
+  const groups = new Map<string, string[][]>();
+  rows.forEach(row => {
+    const key = row[column]?.trim() || '(blank)';
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+  return Array.from(groups, ([key, grouped]) => ({ key, rows: grouped }));
+}
@@ -0,0 +1,100 @@
+// Fuzzy matching of entity names, used to keep find-all results free of near-duplicates
+
+// Legal-form suffixes and filler words that don't distinguish one entity from another
+const NOISE_WORDS = new Set([
+  'the', 'inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation',
+  'co', 'company', 'plc', 'gmbh', 'ag', 'sa', 'bv', 'nv', 'pty', 'group', 'holdings'
+]);
+
+// Names at least this similar (1 = identical) count as the same entity
+const SIMILARITY_THRESHOLD = 0.9;
+
+export function normalizeEntity(name: string): string {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  const meaningful = words.filter(word => !NOISE_WORDS.has(word));
+  // A name made only of noise words ("The Company") is kept as it is
+  return (meaningful.length > 0 ? meaningful : words).join(' ');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+const ROMAN_NUMERAL = /^m{0,3}(cm|cd|d?c{0,3})(xc|xl|l?x{0,3})(ix|iv|v?i{0,3})$/;
+const ROMAN_VALUES: { [digit: string]: number } = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+function romanValue(numeral: string): number {
+  return Array.from(numeral).reduce((total, digit, index) => {
+    const value = ROMAN_VALUES[digit];
+    return ROMAN_VALUES[numeral[index + 1]] > value ? total - value : total + value;
+  }, 0);
+}
+
+// The numbers in a normalized name, written in digits or roman numerals, in order
+function numerals(name: string): string {
+  return name.split(' ')
+    .map(word => /^\d+$/.test(word) ? String(Number(word)) : ROMAN_NUMERAL.test(word) ? String(romanValue(word)) : '')
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Names that differ in a number ("Fund II" and "Fund III") are different entities
+// however close they are, as a short numeral barely moves the similarity
+function matches(left: string, right: string): boolean {
+  return left === right
+    || (numerals(left) === numerals(right) && similarity(left, right) >= SIMILARITY_THRESHOLD);
+}
+
+export function isSameEntity(a: string, b: string): boolean {
+  const left = normalizeEntity(a);
+  const right = normalizeEntity(b);
+  if (!left || !right) return left === right;
+  return matches(left, right);
+}
+
+// Keeps the first of each group of near-identical names, dropping any that match an existing entity
+export function dedupeBy<T>(candidates: T[], nameOf: (candidate: T) => string, existing: string[] = []): T[] {
+  const kept: T[] = [];
+  const seen = existing.map(normalizeEntity);
+
+  for (const candidate of candidates) {
+    const normalized = normalizeEntity(nameOf(candidate));
+    if (!normalized) continue;
+    const duplicate = seen.some(other => matches(other, normalized));
+    if (!duplicate) {
+      kept.push(candidate);
+      seen.push(normalized);
+    }
+  }
+
+  return kept;
+}
+
+export function dedupeEntities(candidates: string[], existing: string[] = []): string[] {
+  return dedupeBy(candidates.map(candidate => candidate.trim()), candidate => candidate, existing);
+}
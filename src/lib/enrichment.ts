@@ -0,0 +1,142 @@
+import { ColumnSpec, cellInputsKey, dependencyLevels, rowContext, specAt } from './columns';
+import { CellProvenance } from './provenance';
+
+// Which cells a Run Cells pass fills. Pinned cells are never overwritten in any mode.
+//   all      - every enrichment cell
+//   empty    - only cells without a value
+//   selected - cells in the selected rows and columns
+//   stale    - empty cells, and cells whose inputs changed since they were filled
+export type RunMode = 'all' | 'empty' | 'selected' | 'stale';
+
+export const RUN_MODES: { mode: RunMode; label: string }[] = [
+  { mode: 'all', label: 'Run Cells' },
+  { mode: 'empty', label: 'Fill Empty Cells' },
+  { mode: 'stale', label: 'Run Changed Cells' },
+  { mode: 'selected', label: 'Run Selected' },
+];
+
+export interface RowEnrichment {
+  // Values for the columns that ran, keyed by header
+  values: { [header: string]: string };
+  // Columns whose returned value was rejected, with the reason
+  errors: { [header: string]: string };
+  // Inputs key each new value was produced from, to store on the cell
+  inputsKeys: { [header: string]: string };
+  // Sources and task details behind each new value
+  provenance: { [header: string]: CellProvenance };
+}
+
+interface EnrichRowOptions {
+  forceRefresh?: boolean;
+  // Decides whether a column runs, given the inputs key computed from the row as it stands
+  // after the earlier levels; columns it skips keep their current value
+  shouldRun?: (header: string, inputsKey: string) => boolean;
+}
+
+interface RowCell {
+  value: string;
+  pinned?: boolean;
+  inputsKey?: string;
+}
+
+// Column filter for one row under a run mode. Selected rows are the caller's
+// concern; here an empty column selection means every column.
+export function runModeFilter(
+  mode: RunMode,
+  headers: string[],
+  row: RowCell[],
+  selectedCols: number[] = []
+): (header: string, inputsKey: string) => boolean {
+  return (header, inputsKey) => {
+    const colIndex = headers.indexOf(header);
+    const cell = row[colIndex];
+    if (cell?.pinned) return false;
+
+    switch (mode) {
+      case 'empty':
+        return !cell?.value;
+      case 'stale':
+        // Values filled before inputs were tracked have nothing to compare against and are kept
+        return !cell?.value || (cell.inputsKey !== undefined && cell.inputsKey !== inputsKey);
+      case 'selected':
+        return selectedCols.length === 0 || selectedCols.includes(colIndex);
+      default:
+        return true;
+    }
+  };
+}
+
+// Fills a row's enrichment columns through /api/runCells, one call per
+// dependency level so later columns can use the values found for earlier ones.
+// Columns that never ran (skipped, blocked by a cycle, or after a failed level)
+// are left out of the result so the caller keeps their old values.
+export async function enrichRow(
+  input: string,
+  headers: string[],
+  specs: ColumnSpec[],
+  row: Array<{ value: string }>,
+  options: EnrichRowOptions = {}
+): Promise<RowEnrichment> {
+  const { levels, blocked } = dependencyLevels(headers, specs);
+  if (blocked.length > 0) {
+    console.warn(`Skipping columns with circular dependencies: ${blocked.join(', ')}`);
+  }
+
+  const context = { ...rowContext(headers, row), [headers[0]]: input };
+  const result: RowEnrichment = { values: {}, errors: {}, inputsKeys: {}, provenance: {} };
+  let ranAny = false;
+
+  for (const level of levels) {
+    const inputsKeys = level.reduce((acc, header) => {
+      acc[header] = cellInputsKey(header, headers, specs, context);
+      return acc;
+    }, {} as { [header: string]: string });
+    const targets = level.filter(header => !options.shouldRun || options.shouldRun(header, inputsKeys[header]));
+    if (targets.length === 0) continue;
+
+    try {
+      const response = await fetch('/api/runCells', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          input,
+          columns: targets.reduce((acc, header) => {
+            acc[header] = context[header] || '';
+            return acc;
+          }, {} as { [header: string]: string }),
+          columnSpecs: targets.reduce((acc, header) => {
+            acc[header] = specAt(specs, headers.indexOf(header));
+            return acc;
+          }, {} as { [header: string]: ColumnSpec }),
+          row: context,
+          forceRefresh: options.forceRefresh
+        }),
+      });
+
+      if (!response.ok) throw new Error('Failed to run cells');
+
+      const responseData = await response.json();
+      if (!responseData.success || !responseData.results) throw new Error('No results returned');
+
+      // Rejected values come back in errors only, leaving their cells for a later run
+      targets.filter(header => header in responseData.results).forEach(header => {
+        result.values[header] = responseData.results[header];
+        result.inputsKeys[header] = inputsKeys[header];
+      });
+      Object.assign(result.errors, responseData.errors || {});
+      Object.assign(result.provenance, responseData.provenance || {});
+      // Later levels see these values through their instructions
+      Object.assign(context, result.values);
+      ranAny = true;
+    } catch (error) {
+      if (!ranAny) throw error;
+      // Keep what the earlier levels found; the columns that depend on this one can't run
+      console.error(`Error running columns ${targets.join(', ')}:`, error);
+      break;
+    }
+  }
+
+  return result;
+}
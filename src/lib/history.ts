@@ -0,0 +1,116 @@
+// Shared by the workflow builder and the sheets it holds; client-side only
+
+// One undoable change. Both functions put the state the change touched back as
+// it was before (undo) or after (redo), so they can run any number of times.
+export interface HistoryCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  // Consecutive commands with the same key, close together, are merged into one
+  // entry, e.g. the keystrokes typed into one cell
+  mergeKey?: string;
+  // What made the change, e.g. a sheet, so its commands can be dropped when it goes away
+  owner?: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+}
+
+type RecordedCommand = HistoryCommand & HistoryEntry;
+
+const HISTORY_LIMIT = 200;
+const MERGE_WINDOW_MS = 1500;
+
+// Undo and redo stacks of commands, with listeners told about every change
+export class History {
+  private done: RecordedCommand[] = [];
+  private undone: RecordedCommand[] = [];
+  private listeners = new Set<() => void>();
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Records a change that has already been made; anything undone is dropped
+  push(command: HistoryCommand) {
+    const now = Date.now();
+    const last = this.done[this.done.length - 1];
+
+    if (command.mergeKey && last?.mergeKey === command.mergeKey && now - last.timestamp < MERGE_WINDOW_MS) {
+      // Keeps the first command's undo, so the merged entry goes back to before all of them
+      this.done[this.done.length - 1] = { ...last, redo: command.redo, timestamp: now };
+    } else {
+      this.done.push({ ...command, id: crypto.randomUUID(), timestamp: now });
+      if (this.done.length > HISTORY_LIMIT) this.done.shift();
+    }
+    this.undone = [];
+    this.notify();
+  }
+
+  canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  undo() {
+    const command = this.done.pop();
+    if (!command) return;
+    command.undo();
+    this.undone.push(command);
+    this.notify();
+  }
+
+  redo() {
+    const command = this.undone.pop();
+    if (!command) return;
+    command.redo();
+    this.done.push(command);
+    this.notify();
+  }
+
+  // Undoes or redoes until the entry is the latest one done
+  jumpTo(id: string) {
+    if (this.undone.some(command => command.id === id)) {
+      while (this.done[this.done.length - 1]?.id !== id) this.redo();
+    } else if (this.done.some(command => command.id === id)) {
+      while (this.done[this.done.length - 1]?.id !== id) this.undo();
+    }
+  }
+
+  // Drops the commands an owner recorded, whose state no longer exists once it's gone
+  drop(owner: string) {
+    const kept = (command: RecordedCommand) => command.owner !== owner;
+    if (this.done.every(kept) && this.undone.every(kept)) return;
+    this.done = this.done.filter(kept);
+    this.undone = this.undone.filter(kept);
+    this.notify();
+  }
+
+  clear() {
+    this.done = [];
+    this.undone = [];
+    this.notify();
+  }
+
+  // Done entries oldest first, then undone ones in the order redo would bring them back
+  entries(): { done: HistoryEntry[]; undone: HistoryEntry[] } {
+    const entry = ({ id, label, timestamp }: RecordedCommand): HistoryEntry => ({ id, label, timestamp });
+    return {
+      done: this.done.map(entry),
+      undone: [...this.undone].reverse().map(entry)
+    };
+  }
+}
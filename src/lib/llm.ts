@@ -1,69 +1,168 @@
-import fs from 'fs';
-import path from 'path';
-import crypto from 'crypto';
-import OpenAI from 'openai';
+import { cacheGet, cacheKey, cacheSet } from './cache';
+import { ChatMessage, resolveModel } from './providers';
+import { JSONSchema, extractJSON, validate } from './schema';
+import { isRetryableError, schedule } from './scheduler';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const DEFAULT_MODEL = process.env.LLM_DEFAULT_MODEL || 'gpt-4o-mini';
+const DEFAULT_MAX_REPAIRS = 2;
 
-interface LLMResponse {
+interface LLMResponse<T = unknown> {
   text: string;
+  data?: T;
   fromCache: boolean;
 }
 
-export async function llm(prompt: string, model: string = 'gpt-4o-mini'): Promise<LLMResponse> {
-  // Create cache directory if it doesn't exist
-  const cacheDir = path.join(process.cwd(), '.cache');
-  if (!fs.existsSync(cacheDir)) {
-    fs.mkdirSync(cacheDir, { recursive: true });
+interface LLMOptions {
+  schema?: JSONSchema;
+  maxRepairs?: number;
+  // Called with each new piece of the response text as it streams in
+  onToken?: (delta: string) => void;
+  // Skip any cached answer and store the fresh one in its place
+  bypassCache?: boolean;
+}
+
+interface CachedLLMResponse {
+  text: string;
+  data?: unknown;
+}
+
+const RESPONSE_OPEN = '<response>';
+const RESPONSE_CLOSE = '</response>';
+
+function extractResponse(response: string): string {
+  return response.match(/<response>([^]*?)<\/response>/)?.[1] || '';
+}
+
+// Returns the part of a partially streamed reply that is safe to show: the text
+// after <response>, holding back anything that might be the start of </response>
+function visibleResponse(partial: string): string {
+  const start = partial.indexOf(RESPONSE_OPEN);
+  if (start === -1) return '';
+
+  const body = partial.slice(start + RESPONSE_OPEN.length);
+  const end = body.indexOf(RESPONSE_CLOSE);
+  if (end !== -1) return body.slice(0, end);
+
+  for (let i = Math.min(RESPONSE_CLOSE.length - 1, body.length); i > 0; i--) {
+    if (RESPONSE_CLOSE.startsWith(body.slice(body.length - i))) {
+      return body.slice(0, body.length - i);
+    }
+  }
+  return body;
+}
+
+// Parses and validates a structured reply, returning the errors to feed back
+// to the model when it doesn't fit the schema
+function parseStructured(text: string, schema: JSONSchema): { data?: unknown; errors: string[] } {
+  let data: unknown;
+  try {
+    data = extractJSON(text);
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${(error as Error).message}`] };
   }
+  return { data, errors: validate(data, schema) };
+}
+
+export async function llm<T = unknown>(
+  prompt: string,
+  model: string = DEFAULT_MODEL,
+  options: LLMOptions = {}
+): Promise<LLMResponse<T>> {
+  const { schema, maxRepairs = DEFAULT_MAX_REPAIRS, onToken, bypassCache } = options;
 
-  // Generate cache key from prompt and model
-  const cacheKey = crypto
-    .createHash('md5')
-    .update(`${prompt}${model}`)
-    .digest('hex');
-  const cachePath = path.join(cacheDir, `${cacheKey}.json`);
+  // Generate cache key from prompt, provider, model and schema
+  const target = resolveModel(model);
+  const key = cacheKey(`${prompt}${target.provider.name}/${target.model}${schema ? JSON.stringify(schema) : ''}`);
 
   // Check cache
-  if (fs.existsSync(cachePath)) {
-    const cached = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+  const cached = bypassCache ? undefined : cacheGet<CachedLLMResponse>('llm', key);
+  if (cached) {
+    onToken?.(cached.text);
     return {
       text: cached.text,
+      data: cached.data as T,
       fromCache: true
     };
   }
 
-  // Call OpenAI API
-  prompt = `
+  // Call the provider that serves this model
+  prompt = schema ? `
+  ${prompt}
+
+  Return a single JSON value that matches this JSON Schema:
+  ${JSON.stringify(schema, null, 2)}
+
+  Put the JSON inside <response></response> tags. Only return the response inside these tags, no other text.
+  ` : `
   ${prompt}
 
   Return your response as described inside <response></response> tags. Only return the response inside these tags, no other text.
   `
-  const completion = await openai.chat.completions.create({
-    messages: [{ role: 'user', content: prompt }],
-    model: model,
-  });
-
-  const response = completion.choices[0]?.message?.content || '';
-
-  // parse out the response from the <response></response> tags
-  const responseText = response.match(/<response>([^]*?)<\/response>/)?.[1] || '';
-
-  // Cache the rnesponse
-  fs.writeFileSync(
-    cachePath,
-    JSON.stringify({
-      text: responseText,
-      prompt,
-      model,
-      timestamp: new Date().toISOString()
-    })
-  );
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+  let responseText = '';
+  let data: unknown;
+
+  if (onToken && !schema && target.provider.stream) {
+    // Stream plain-text replies when the caller wants tokens and the provider can
+    let response = '';
+    let emitted = 0;
+    await schedule(target.provider.name, async () => {
+      response = '';
+      for await (const delta of target.provider.stream!({ messages, model: target.model })) {
+        response += delta;
+        const visible = visibleResponse(response);
+        if (visible.length > emitted) {
+          onToken(visible.slice(emitted));
+          emitted = visible.length;
+        }
+      }
+    }, {
+      // Tokens already shown can't be taken back, so only retry a stream that failed before any
+      shouldRetry: (error) => emitted === 0 && isRetryableError(error)
+    });
+    responseText = extractResponse(response);
+  } else {
+    for (let attempt = 0; ; attempt++) {
+      const response = await schedule(target.provider.name, () => target.provider.complete({
+        messages,
+        model: target.model,
+        schema,
+      }));
+
+      // parse out the response from the <response></response> tags
+      responseText = extractResponse(response);
+      if (!schema) {
+        onToken?.(responseText);
+        break;
+      }
+
+      // Models often drop the tags when answering in JSON, so fall back to the raw text
+      const parsed = parseStructured(responseText || response, schema);
+      if (parsed.errors.length === 0) {
+        data = parsed.data;
+        break;
+      }
+      if (attempt >= maxRepairs) {
+        throw new Error(`LLM response did not match schema after ${attempt + 1} attempts: ${parsed.errors.join('; ')}`);
+      }
+
+      // Ask the model to fix its own output
+      messages.push(
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Your response did not match the schema:\n${parsed.errors.join('\n')}\n\nReturn the corrected JSON inside <response></response> tags.`
+        }
+      );
+    }
+  }
+
+  // Cache the response
+  cacheSet<CachedLLMResponse>('llm', key, { text: responseText, data }, { prompt, model });
 
   return {
     text: responseText,
+    data: data as T,
     fromCache: false
   };
 }
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { llm } from './llm';
+import { FieldBasis, basisSchema } from './provenance';
+import { JSONSchema } from './schema';
+
+export interface LocalTask {
+  task_id: string;
+  name: string;
+  description: string;
+  model: string;
+  prompt: string;
+  input_schema: JSONSchema;
+  output_schema: JSONSchema;
+  created_at: string;
+}
+
+export interface LocalExecution {
+  task_id: string;
+  execution_id: string;
+  status: 'running' | 'completed' | 'failed';
+  output?: unknown;
+  basis?: FieldBasis[];
+  error?: string;
+  created_at: string;
+  completed_at?: string;
+}
+
+interface ExecutionState {
+  execution: LocalExecution;
+  done: Promise<void>;
+  // When the execution completed or failed, to know when it can be forgotten
+  finishedAt?: number;
+}
+
+const TASKS_PATH = path.join(process.cwd(), '.data', 'local-tasks.json');
+// Task models (neon, rhodium, ...) mean nothing to the LLM layer, so every task runs on this one
+const LOCAL_TASKS_MODEL = process.env.LOCAL_TASKS_MODEL || undefined;
+// How long a finished execution stays around for its caller to poll the result
+const FINISHED_EXECUTION_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Route handlers can be bundled separately, so executions live on globalThis to be shared between them
+const globalStore = globalThis as typeof globalThis & { localTaskExecutions?: Map<string, ExecutionState> };
+const executions = globalStore.localTaskExecutions ??= new Map<string, ExecutionState>();
+
+function loadTasks(): { [taskId: string]: LocalTask } {
+  if (fs.existsSync(TASKS_PATH)) {
+    return JSON.parse(fs.readFileSync(TASKS_PATH, 'utf-8'));
+  }
+  return {};
+}
+
+function saveTasks(tasks: { [taskId: string]: LocalTask }) {
+  fs.mkdirSync(path.dirname(TASKS_PATH), { recursive: true });
+  fs.writeFileSync(TASKS_PATH, JSON.stringify(tasks, null, 2));
+}
+
+export function createLocalTask(definition: Omit<LocalTask, 'task_id' | 'created_at'>): LocalTask {
+  const tasks = loadTasks();
+  const task: LocalTask = {
+    ...definition,
+    task_id: `local_${crypto.randomUUID()}`,
+    created_at: new Date().toISOString()
+  };
+  tasks[task.task_id] = task;
+  saveTasks(tasks);
+  return task;
+}
+
+export function getLocalTask(taskId: string): LocalTask | undefined {
+  return loadTasks()[taskId];
+}
+
+// Fills {name} placeholders in the task prompt with the matching arguments
+function buildPrompt(task: LocalTask, args: Record<string, unknown>): string {
+  const prompt = task.prompt.replace(/\{(\w+)\}/g, (match, name) =>
+    name in args ? String(args[name]) : match
+  );
+
+  return `
+        ${task.description}
+
+        ${prompt}
+
+        Arguments:
+        ${JSON.stringify(args)}
+
+        Return a JSON object with the answer under "output", matching the output schema,
+        and a "basis" entry for each output field with the sources you relied on,
+        your reasoning and how confident you are.
+      `;
+}
+
+// Forgets finished executions whose result has had time to be collected
+function evictFinishedExecutions() {
+  const cutoff = Date.now() - FINISHED_EXECUTION_TTL_MS;
+  executions.forEach((state, executionId) => {
+    if (state.finishedAt !== undefined && state.finishedAt < cutoff) {
+      executions.delete(executionId);
+    }
+  });
+}
+
+export function startExecution(task: LocalTask, args: Record<string, unknown>): LocalExecution {
+  evictFinishedExecutions();
+
+  const execution: LocalExecution = {
+    task_id: task.task_id,
+    execution_id: `exec_${crypto.randomUUID()}`,
+    status: 'running',
+    created_at: new Date().toISOString()
+  };
+
+  // The answer is wrapped so the model reports its evidence alongside it
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: { output: task.output_schema, basis: basisSchema(Object.keys(task.output_schema.properties || {})) },
+    required: ['output', 'basis']
+  };
+
+  const done = llm<{ output: unknown; basis: FieldBasis[] }>(buildPrompt(task, args), LOCAL_TASKS_MODEL, { schema })
+    .then(response => {
+      execution.output = response.data?.output;
+      execution.basis = response.data?.basis;
+      execution.completed_at = new Date().toISOString();
+      execution.status = 'completed';
+    })
+    .catch(error => {
+      console.error(`Local task ${task.task_id} execution failed:`, error);
+      execution.error = error instanceof Error ? error.message : String(error);
+      execution.status = 'failed';
+    })
+    .finally(() => {
+      state.finishedAt = Date.now();
+    });
+
+  const state: ExecutionState = { execution, done };
+  executions.set(execution.execution_id, state);
+  return execution;
+}
+
+export function getExecution(taskId: string, executionId: string): LocalExecution | undefined {
+  const state = executions.get(executionId);
+  return state?.execution.task_id === taskId ? state.execution : undefined;
+}
+
+// Resolves once the execution finishes or the wait runs out, whichever comes first
+export async function waitForExecution(execution: LocalExecution, waitMs: number): Promise<LocalExecution> {
+  const state = executions.get(execution.execution_id);
+  if (state && execution.status === 'running' && waitMs > 0) {
+    await Promise.race([state.done, new Promise(resolve => setTimeout(resolve, waitMs))]);
+  }
+  return { ...execution };
+}
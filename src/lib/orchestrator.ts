@@ -0,0 +1,211 @@
+import { llm } from './llm';
+import { JSONSchema, validate } from './schema';
+import { SheetContext, TOOLS, ToolCall, ToolDefinition, applyToolCall } from './tools';
+import { ProposedStep, STEP_TYPES, normalizeStep, workflowErrors } from './workflow';
+
+export interface ConversationMessage {
+  role: 'user' | 'system';
+  content: string;
+}
+
+// One step of the loop as the model returns it
+interface AgentTurn {
+  message: string;
+  toolCalls: ToolCall[];
+  done: boolean;
+}
+
+export interface OrchestratorResult {
+  response: string;
+  // Calls that passed validation, in the order the client should apply them
+  toolCalls: ToolCall[];
+  steps: number;
+}
+
+const ORCHESTRATOR_MODEL = process.env.ORCHESTRATOR_MODEL || undefined;
+const MAX_STEPS = parseInt(process.env.ORCHESTRATOR_MAX_STEPS || '5');
+// Rows shown to the model; the row count covers the rest
+const CONTEXT_ROWS = 10;
+// Plans that break the step order are sent back this many times before giving up
+const MAX_PLAN_ATTEMPTS = 3;
+
+// The model may only call the tools the client can carry out
+function turnSchema(tools: ToolDefinition[]): JSONSchema {
+  return {
+    type: 'object',
+    properties: {
+      message: { type: 'string', description: 'What to tell the user about this step' },
+      toolCalls: {
+        type: 'array',
+        description: 'Tools to call now, in order; empty when nothing more needs doing',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: tools.map(tool => tool.name) },
+            params: { type: 'object', description: 'Arguments matching the tool\'s parameter schema' },
+            reason: { type: 'string', description: 'Why this call is needed, in one sentence' }
+          },
+          required: ['type', 'params', 'reason']
+        }
+      },
+      done: { type: 'boolean', description: 'True once the request is fully handled' }
+    },
+    required: ['message', 'toolCalls', 'done']
+  };
+}
+
+function describeTools(tools: ToolDefinition[]): string {
+  return tools.map(tool => `- ${tool.name}: ${tool.description}\n  Parameters: ${JSON.stringify(tool.params)}`).join('\n');
+}
+
+function describeSheet(context: SheetContext): string {
+  const rows = context.rows.slice(0, CONTEXT_ROWS).map((row, index) => `${index}: ${row.join(' | ')}`);
+  return `
+        Headers: ${context.headers.join(' | ') || '(none)'}
+        Rows: ${context.rowCount}
+        ${rows.join('\n        ')}
+      `;
+}
+
+function buildPrompt(messages: ConversationMessage[], context: SheetContext, transcript: string[], tools: ToolDefinition[]): string {
+  const conversation = messages.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`);
+
+  return `
+        You are the assistant inside a spreadsheet tool. The first column of a sheet holds the entities
+        (rows are found with the first header as a search query); every other column is filled per row by Run Cells.
+        Carry out the user's latest request by calling tools. Only call tools the request needs.
+
+        Tools:
+        ${describeTools(tools)}
+
+        Current sheet:
+        ${describeSheet(context)}
+
+        Conversation:
+        ${conversation.join('\n        ')}
+
+        ${transcript.length > 0 ? `Steps taken so far for this request:\n        ${transcript.join('\n        ')}` : ''}
+
+        Reply with the tool calls for the next step, or none with done set to true once the request is handled.
+        The message of the final step is shown to the user as your reply.
+      `;
+}
+
+// Errors for a call the model made, checked against the tool's own parameter schema
+function checkToolCall(call: ToolCall, tools: ToolDefinition[]): string[] {
+  const tool = tools.find(definition => definition.name === call.type);
+  if (!tool) return [`${call.type} is not available here`];
+  return validate(call.params ?? {}, tool.params, 'params');
+}
+
+// Runs the model in a loop: each step may call tools, whose effect on the sheet
+// (or validation errors) is fed back before the next step. The calls themselves
+// are carried out by the client, so they are collected and returned; `tools` are
+// the ones it can carry out.
+export async function orchestrate(messages: ConversationMessage[], context: SheetContext, tools: ToolDefinition[] = TOOLS): Promise<OrchestratorResult> {
+  const toolCalls: ToolCall[] = [];
+  const transcript: string[] = [];
+  let sheet = context;
+  let response = '';
+
+  for (let step = 1; step <= MAX_STEPS; step++) {
+    const { data } = await llm<AgentTurn>(buildPrompt(messages, sheet, transcript, tools), ORCHESTRATOR_MODEL, { schema: turnSchema(tools) });
+    if (!data) throw new Error('No response from the orchestrator model');
+    response = data.message;
+
+    data.toolCalls.forEach(call => {
+      const errors = checkToolCall(call, tools);
+      if (errors.length > 0) {
+        transcript.push(`${call.type} was rejected: ${errors.join('; ')}`);
+        return;
+      }
+      const applied = applyToolCall(sheet, call);
+      sheet = applied.context;
+      toolCalls.push({ type: call.type, params: call.params ?? {}, reason: call.reason });
+      transcript.push(`${call.type}(${JSON.stringify(call.params ?? {})}): ${applied.result}`);
+    });
+
+    if (data.done || data.toolCalls.length === 0) {
+      return { response, toolCalls, steps: step };
+    }
+  }
+
+  console.warn(`Orchestrator stopped after ${MAX_STEPS} steps`);
+  return { response, toolCalls, steps: MAX_STEPS };
+}
+
+export interface WorkflowPlan {
+  response: string;
+  steps: ProposedStep[];
+}
+
+const PLAN_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    message: { type: 'string', description: 'A short explanation of the proposed workflow for the user' },
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: STEP_TYPES.map(step => step.type) },
+          summary: { type: 'string', description: 'What this step produces, in a few words' },
+          headers: { type: 'array', items: { type: 'string' } },
+          prompt: { type: 'string' }
+        },
+        required: ['type', 'summary', 'headers']
+      }
+    }
+  },
+  required: ['message', 'steps']
+};
+
+function describeWorkflow(steps: ProposedStep[]): string {
+  if (steps.length === 0) return '(empty)';
+  return steps.map((step, index) =>
+    `${index + 1}. ${step.type}: headers ${JSON.stringify(step.headers)}${step.prompt ? `, prompt ${JSON.stringify(step.prompt)}` : ''}`
+  ).join('\n        ');
+}
+
+// Turns a description of a pipeline into the full sequence of steps it needs,
+// starting from the current workflow. Plans that can't be built are sent back
+// with the problems until they can, or the attempts run out.
+export async function planWorkflow(messages: ConversationMessage[], current: ProposedStep[]): Promise<WorkflowPlan> {
+  const conversation = messages.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`);
+  let feedback = '';
+
+  for (let attempt = 1; attempt <= MAX_PLAN_ATTEMPTS; attempt++) {
+    const prompt = `
+        You design workflows for a spreadsheet tool. A workflow is a sequence of steps:
+        ${STEP_TYPES.map(step => `- ${step.type}: ${step.description}`).join('\n        ')}
+
+        The first step is always a single sheet. A 3d step or an llm_pipe step follows a single or aggregation step,
+        and an aggregation step follows a 3d step. Nothing follows an llm_pipe step.
+        For single and 3d steps, headers[0] is the search query that finds the rows (for 3d it is run once per row
+        of the previous step, e.g. "Founders"), and the other headers are columns filled for each row.
+        For aggregation steps, headers are the summary columns and prompt says how to aggregate.
+        For llm_pipe steps, prompt is the instruction run over each row; headers can be empty.
+
+        Current workflow:
+        ${describeWorkflow(current)}
+
+        Conversation:
+        ${conversation.join('\n        ')}
+
+        Propose the complete workflow after the user's latest request, keeping current steps that still fit unchanged.
+        ${feedback}
+      `;
+
+    const { data } = await llm<{ message: string; steps: ProposedStep[] }>(prompt, ORCHESTRATOR_MODEL, { schema: PLAN_SCHEMA, bypassCache: attempt > 1 });
+    if (!data) throw new Error('No response from the orchestrator model');
+
+    const steps = data.steps.map(normalizeStep);
+    const errors = workflowErrors(steps);
+    if (errors.length === 0) {
+      return { response: data.message, steps };
+    }
+    feedback = `Your last proposal could not be built:\n        ${errors.join('\n        ')}\n        Fix these problems.`;
+  }
+
+  throw new Error(`Workflow plan still invalid after ${MAX_PLAN_ATTEMPTS} attempts`);
+}
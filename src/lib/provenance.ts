@@ -0,0 +1,93 @@
+import type { JSONSchema } from './schema';
+
+// Shared by the spreadsheet components and the API routes, so this module must stay free of Node-only imports
+
+export interface Citation {
+  url: string;
+  title?: string;
+  excerpt?: string;
+}
+
+// Where an enriched value came from, kept on the cell alongside the value
+export interface CellProvenance {
+  sources: string[];
+  citations: Citation[];
+  reasoning?: string;
+  // As reported by the backend, usually "high", "medium" or "low"
+  confidence?: string;
+  model: string;
+  taskId: string;
+  executionId?: string;
+  timestamp: string;
+}
+
+// One entry of a task execution's basis: the evidence behind one output field
+export interface FieldBasis {
+  field: string;
+  citations?: Array<{ url: string; title?: string; excerpts?: string[] }>;
+  reasoning?: string;
+  confidence?: string | number;
+}
+
+interface ExecutionDetails {
+  task_id: string;
+  execution_id?: string;
+  model: string;
+  basis?: FieldBasis[];
+  completed_at?: string;
+}
+
+// Schema for the basis array, for backends (like the local stand-in) that have to be asked for it
+export function basisSchema(fields: string[]): JSONSchema {
+  return {
+    type: 'array',
+    description: 'One entry per output field: the sources relied on, the reasoning and how confident you are',
+    items: {
+      type: 'object',
+      properties: {
+        field: { type: 'string', enum: fields, description: 'Name of the output field' },
+        reasoning: { type: 'string' },
+        confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+        citations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              url: { type: 'string', format: 'uri' },
+              title: { type: 'string' },
+              excerpts: { type: 'array', items: { type: 'string' } }
+            },
+            required: ['url']
+          }
+        }
+      },
+      required: ['field', 'confidence']
+    }
+  };
+}
+
+// Provenance for one output field. Array fields may be reported per item
+// ("results.0"), so those entries are folded into the field's own.
+export function provenanceFor(field: string, execution: ExecutionDetails): CellProvenance {
+  const entries = (execution.basis || []).filter(entry =>
+    entry.field === field || entry.field?.startsWith(`${field}.`) || entry.field?.startsWith(`${field}[`)
+  );
+  const citations = entries.flatMap(entry => (entry.citations || []).flatMap(citation =>
+    citation.excerpts?.length
+      ? citation.excerpts.map(excerpt => ({ url: citation.url, title: citation.title, excerpt }))
+      : [{ url: citation.url, title: citation.title }]
+  ));
+  const reasoning = entries.map(entry => entry.reasoning).filter(Boolean).join('\n');
+  const confidence = entries.find(entry => entry.confidence !== undefined)?.confidence;
+
+  return {
+    sources: citations.map(citation => citation.url).filter((url, i, urls) => urls.indexOf(url) === i),
+    citations,
+    reasoning: reasoning || undefined,
+    confidence: confidence !== undefined ? String(confidence) : undefined,
+    model: execution.model,
+    taskId: execution.task_id,
+    executionId: execution.execution_id,
+    timestamp: execution.completed_at || new Date().toISOString()
+  };
+}
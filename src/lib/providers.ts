@@ -0,0 +1,160 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import OpenAI from 'openai';
+import { JSONSchema, sampleFromSchema } from './schema';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model: string;
+  // Expected shape of the reply when the caller wants structured output
+  schema?: JSONSchema;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: CompletionRequest): Promise<string>;
+  // Yields the reply as it is generated; providers without it are called via complete()
+  stream?(request: CompletionRequest): AsyncIterable<string>;
+}
+
+interface MockRule {
+  match: string;
+  response: string;
+}
+
+const DEFAULT_PROVIDER = process.env.LLM_PROVIDER || 'openai';
+const LOCAL_LLM_URL = process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1';
+const MOCK_CHUNK_SIZE = 4;
+
+// Wraps any server that speaks the OpenAI chat completions API. With no base URL
+// this is OpenAI itself; with one it covers llama.cpp, Ollama, vLLM and friends.
+export class OpenAIProvider implements LLMProvider {
+  name: string;
+  private client: OpenAI | null = null;
+  private apiKey?: string;
+  private baseURL?: string;
+
+  constructor(name: string, apiKey?: string, baseURL?: string) {
+    this.name = name;
+    this.apiKey = apiKey;
+    this.baseURL = baseURL;
+  }
+
+  // The SDK throws when constructed without a key, so build it on first use
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.apiKey) {
+        throw new Error(`No API key configured for the ${this.name} provider`);
+      }
+      this.client = new OpenAI({ apiKey: this.apiKey, baseURL: this.baseURL });
+    }
+    return this.client;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const completion = await this.getClient().chat.completions.create({
+      messages: request.messages,
+      model: request.model,
+    });
+    return completion.choices[0]?.message?.content || '';
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const stream = await this.getClient().chat.completions.create({
+      messages: request.messages,
+      model: request.model,
+      stream: true,
+    });
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+}
+
+// Deterministic provider for offline development and tests. Rules are matched
+// in order against the last user message; anything unmatched gets a stable
+// reply derived from the prompt so cached and fresh runs look the same.
+export class MockProvider implements LLMProvider {
+  name = 'mock';
+  private rules: MockRule[];
+
+  constructor(rules: MockRule[] = []) {
+    this.rules = rules;
+  }
+
+  setRules(rules: MockRule[]) {
+    this.rules = rules;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const prompt = request.messages.filter(m => m.role === 'user').pop()?.content || '';
+    const rule = this.rules.find(r => prompt.includes(r.match));
+    if (rule) {
+      return rule.response;
+    }
+
+    if (request.schema) {
+      return `<response>${JSON.stringify(sampleFromSchema(request.schema, prompt))}</response>`;
+    }
+
+    const digest = crypto.createHash('md5').update(prompt).digest('hex').slice(0, 8);
+    return `<response>mock-${digest}</response>`;
+  }
+
+  // Replays the scripted reply in small chunks so streaming UIs can be exercised offline
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const response = await this.complete(request);
+    for (let i = 0; i < response.length; i += MOCK_CHUNK_SIZE) {
+      yield response.slice(i, i + MOCK_CHUNK_SIZE);
+    }
+  }
+}
+
+function loadMockRules(): MockRule[] {
+  const scriptPath = process.env.MOCK_LLM_SCRIPT;
+  if (!scriptPath || !fs.existsSync(scriptPath)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) as MockRule[];
+}
+
+const providers: { [name: string]: LLMProvider } = {
+  openai: new OpenAIProvider('openai', process.env.OPENAI_API_KEY),
+  local: new OpenAIProvider('local', process.env.LOCAL_LLM_API_KEY || 'local', LOCAL_LLM_URL),
+  mock: new MockProvider(loadMockRules()),
+};
+
+export function registerProvider(provider: LLMProvider) {
+  providers[provider.name] = provider;
+}
+
+export function getProvider(name: string): LLMProvider {
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return provider;
+}
+
+// Models may be addressed as "provider/model" (e.g. "local/llama3") or by bare
+// name, in which case LLM_PROVIDER decides. "mock" on its own selects the mock.
+export function resolveModel(model: string): { provider: LLMProvider; model: string } {
+  if (model === 'mock') {
+    return { provider: getProvider('mock'), model };
+  }
+
+  const slash = model.indexOf('/');
+  if (slash > 0 && providers[model.slice(0, slash)]) {
+    return { provider: getProvider(model.slice(0, slash)), model: model.slice(slash + 1) };
+  }
+
+  return { provider: getProvider(DEFAULT_PROVIDER), model };
+}
@@ -0,0 +1,87 @@
+interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Decides whether a failed attempt may be retried; defaults to 429 and 5xx
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+const DEFAULT_CONCURRENCY = parseInt(process.env.LLM_MAX_CONCURRENCY || '8', 10);
+const MAX_ATTEMPTS = parseInt(process.env.RETRY_MAX_ATTEMPTS || '5', 10);
+const BASE_DELAY_MS = parseInt(process.env.RETRY_BASE_DELAY_MS || '500', 10);
+const MAX_DELAY_MS = 30 * 1000;
+
+// Caps how many calls run at once for one upstream; extra calls wait in FIFO order
+class Limiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private maxConcurrency: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.queue.push(resolve));
+  }
+
+  release() {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+const limiters: { [key: string]: Limiter } = {};
+
+// Each key reads its own limit from e.g. LLM_MAX_CONCURRENCY_OPENAI or
+// LLM_MAX_CONCURRENCY_TASKS, falling back to LLM_MAX_CONCURRENCY
+function getLimiter(key: string): Limiter {
+  if (!limiters[key]) {
+    const override = process.env[`LLM_MAX_CONCURRENCY_${key.toUpperCase()}`];
+    limiters[key] = new Limiter(override ? parseInt(override, 10) : DEFAULT_CONCURRENCY);
+  }
+  return limiters[key];
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: number })?.status;
+  return status === 429 || (typeof status === 'number' && status >= 500);
+}
+
+// Exponential backoff with full jitter so parallel retries don't stampede together
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+// Runs fn under the concurrency limit for key, retrying retryable failures.
+// The slot is released while waiting out a backoff so other calls can proceed.
+export async function schedule<T>(key: string, fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    maxAttempts = MAX_ATTEMPTS,
+    baseDelayMs = BASE_DELAY_MS,
+    maxDelayMs = MAX_DELAY_MS,
+    shouldRetry = isRetryableError
+  } = options;
+  const limiter = getLimiter(key);
+
+  for (let attempt = 0; ; attempt++) {
+    await limiter.acquire();
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt + 1 >= maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+      console.warn(`Retrying ${key} call after error (attempt ${attempt + 1}/${maxAttempts}):`, error);
+    } finally {
+      limiter.release();
+    }
+    await new Promise(resolve => setTimeout(resolve, backoffDelay(attempt, baseDelayMs, maxDelayMs)));
+  }
+}
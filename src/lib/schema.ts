@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+
+export interface JSONSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: {
+    [key: string]: JSONSchema;
+  };
+  items?: JSONSchema;
+  required?: string[];
+  additionalProperties?: boolean;
+  enum?: unknown[];
+  format?: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function checkFormat(value: string, format: string): boolean {
+  switch (format) {
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+    case 'date-time':
+      return !isNaN(Date.parse(value));
+    case 'uri':
+    case 'url':
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return false;
+      }
+    default:
+      return true;
+  }
+}
+
+// Validates a value against the subset of JSON Schema we hand to models and
+// returns human-readable errors, one per problem, suitable for a repair prompt.
+export function validate(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      return [`${path} should be ${types.join(' or ')} but is ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    errors.push(`${path} should be one of ${schema.enum.map(o => JSON.stringify(o)).join(', ')}`);
+  }
+
+  if (schema.format && typeof value === 'string' && !checkFormat(value, schema.format)) {
+    errors.push(`${path} should be a valid ${schema.format}`);
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    (schema.required || []).forEach(key => {
+      if (!(key in obj)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    });
+
+    Object.keys(obj).forEach(key => {
+      if (properties[key]) {
+        errors.push(...validate(obj[key], properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not an allowed property`);
+      }
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validate(item, schema.items as JSONSchema, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+function isTrailingComma(text: string, index: number): boolean {
+  let i = index + 1;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return text[i] === '}' || text[i] === ']';
+}
+
+// Removes comments and trailing commas that models like to add, leaving
+// anything inside string literals untouched
+function stripJSONNoise(text: string): string {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += text[++i] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === ',' && isTrailingComma(text, i)) {
+      // Drop it
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+// Finds the first complete JSON object or array in free-form model output,
+// tolerating code fences, prose around it, comments and trailing commas.
+export function extractJSON(text: string): unknown {
+  const cleaned = stripJSONNoise(text.replace(/```(?:json)?/gi, ''));
+  const start = cleaned.search(/[{[]/);
+  if (start === -1) {
+    throw new Error('No JSON object found in response');
+  }
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < cleaned.length; i++) {
+    const char = cleaned[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        return JSON.parse(cleaned.slice(start, i + 1));
+      }
+    }
+  }
+
+  throw new Error('Unterminated JSON in response');
+}
+
+// Builds a deterministic value that satisfies the schema, used by the mock
+// provider so structured calls work offline
+export function sampleFromSchema(schema: JSONSchema, seed: string = ''): unknown {
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      Object.entries(schema.properties || {}).forEach(([key, property]) => {
+        result[key] = sampleFromSchema(property, `${seed}.${key}`);
+      });
+      return result;
+    }
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items, `${seed}[0]`)] : [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      if (schema.format === 'date') return '2000-01-01';
+      if (schema.format === 'date-time') return '2000-01-01T00:00:00Z';
+      if (schema.format === 'uri' || schema.format === 'url') return 'https://example.com/';
+      return `mock-${crypto.createHash('md5').update(seed).digest('hex').slice(0, 8)}`;
+  }
+}
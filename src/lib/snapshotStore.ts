@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { isValidWorkflowId } from './workflowStore';
+import { Snapshot, SnapshotSheet, SnapshotSummary, snapshotRowCount } from './snapshots';
+
+// One directory per workflow and one file per snapshot, with an index of their
+// summaries, so listing snapshots doesn't mean loading anyone's rows
+const SNAPSHOTS_DIR = path.join(process.cwd(), '.data', 'snapshots');
+// Not a valid snapshot id, so no snapshot's file can take its name
+const INDEX_FILE = '.index.json';
+// Past this, a step's oldest snapshots are deleted as new ones are kept
+const MAX_SNAPSHOTS_PER_STEP = 50;
+
+function workflowDir(workflowId: string): string {
+  if (!isValidWorkflowId(workflowId)) {
+    throw new Error(`Invalid workflow id: ${workflowId}`);
+  }
+  return path.join(SNAPSHOTS_DIR, workflowId);
+}
+
+function snapshotPath(workflowId: string, id: string): string {
+  if (!isValidWorkflowId(id)) {
+    throw new Error(`Invalid snapshot id: ${id}`);
+  }
+  return path.join(workflowDir(workflowId), `${id}.json`);
+}
+
+// Written aside and renamed into place, so a reader never sees half a file
+function writeFile(filePath: string, contents: string) {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, contents);
+  fs.renameSync(tempPath, filePath);
+}
+
+function writeSnapshot(snapshot: Snapshot) {
+  fs.mkdirSync(workflowDir(snapshot.workflowId), { recursive: true });
+  writeFile(snapshotPath(snapshot.workflowId, snapshot.id), JSON.stringify(snapshot));
+}
+
+function summarize(snapshot: Snapshot): SnapshotSummary {
+  return {
+    id: snapshot.id,
+    stepId: snapshot.stepId,
+    name: snapshot.name,
+    createdAt: snapshot.createdAt,
+    rowCount: snapshotRowCount(snapshot.sheets)
+  };
+}
+
+export function getSnapshot(workflowId: string, id: string): Snapshot | undefined {
+  const filePath = snapshotPath(workflowId, id);
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+// Summaries of a workflow's snapshots, oldest first. Directories from before the
+// index existed have it built from their snapshots the first time they're read.
+function readIndex(workflowId: string): SnapshotSummary[] {
+  const dir = workflowDir(workflowId);
+  if (!fs.existsSync(dir)) return [];
+  const indexPath = path.join(dir, INDEX_FILE);
+  if (fs.existsSync(indexPath)) {
+    return JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+  }
+
+  const summaries = fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json') && file !== INDEX_FILE)
+    .map(file => getSnapshot(workflowId, path.basename(file, '.json')))
+    .filter((snapshot): snapshot is Snapshot => !!snapshot)
+    .map(summarize)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  writeIndex(workflowId, summaries);
+  return summaries;
+}
+
+function writeIndex(workflowId: string, summaries: SnapshotSummary[]) {
+  fs.mkdirSync(workflowDir(workflowId), { recursive: true });
+  writeFile(path.join(workflowDir(workflowId), INDEX_FILE), JSON.stringify(summaries));
+}
+
+// A workflow's snapshots, or one step's, oldest first
+export function listSnapshots(workflowId: string, stepId?: string): SnapshotSummary[] {
+  return readIndex(workflowId).filter(summary => !stepId || summary.stepId === stepId);
+}
+
+export function createSnapshot(
+  workflowId: string,
+  stepId: string,
+  name: string,
+  headers: string[],
+  sheets: SnapshotSheet[]
+): Snapshot {
+  const snapshot: Snapshot = {
+    id: crypto.randomUUID(),
+    workflowId,
+    stepId,
+    name,
+    createdAt: new Date().toISOString(),
+    headers,
+    sheets
+  };
+  // Read before the new file is written, so an index built now doesn't already hold it
+  const summaries = [...readIndex(workflowId), summarize(snapshot)];
+  writeSnapshot(snapshot);
+
+  const stepSnapshots = summaries.filter(summary => summary.stepId === stepId);
+  const expired = stepSnapshots.slice(0, Math.max(stepSnapshots.length - MAX_SNAPSHOTS_PER_STEP, 0));
+  expired.forEach(summary => fs.rmSync(snapshotPath(workflowId, summary.id), { force: true }));
+  writeIndex(workflowId, summaries.filter(summary => !expired.includes(summary)));
+  return snapshot;
+}
+
+export function renameSnapshot(workflowId: string, id: string, name: string): Snapshot | undefined {
+  const existing = getSnapshot(workflowId, id);
+  if (!existing) return undefined;
+
+  const snapshot = { ...existing, name };
+  writeSnapshot(snapshot);
+  writeIndex(workflowId, readIndex(workflowId).map(summary => summary.id === id ? { ...summary, name } : summary));
+  return snapshot;
+}
+
+export function deleteSnapshot(workflowId: string, id: string): boolean {
+  const filePath = snapshotPath(workflowId, id);
+  if (!fs.existsSync(filePath)) return false;
+  fs.unlinkSync(filePath);
+  writeIndex(workflowId, readIndex(workflowId).filter(summary => summary.id !== id));
+  return true;
+}
+
+// Called when the workflow itself is deleted
+export function deleteSnapshots(workflowId: string) {
+  fs.rmSync(workflowDir(workflowId), { recursive: true, force: true });
+}
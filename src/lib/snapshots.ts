@@ -0,0 +1,121 @@
+// Shared by the snapshot store and the snapshot viewer, so this module must stay free of Node-only imports
+
+type Cell = { value: string; row: number; col: number };
+
+// One sheet's rows as a run left them; a 3D step has one per sheet, named after it
+export interface SnapshotSheet {
+  name: string;
+  rows: Cell[][];
+}
+
+// The name of the only sheet of single and aggregation steps. It doesn't follow the
+// step's title, so renaming the step doesn't turn every row into a removed and added one.
+export const SINGLE_SHEET_NAME = 'Sheet';
+
+// A step's results after a run, kept so later runs can be compared with it
+export interface Snapshot {
+  id: string;
+  workflowId: string;
+  stepId: string;
+  name: string;
+  createdAt: string;
+  headers: string[];
+  sheets: SnapshotSheet[];
+}
+
+export interface SnapshotSummary {
+  id: string;
+  stepId: string;
+  name: string;
+  createdAt: string;
+  rowCount: number;
+}
+
+export type CellStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface CellDiff {
+  status: CellStatus;
+  before?: string;
+  after?: string;
+}
+
+export interface RowDiff {
+  // The row's first column value, which is how rows are matched between snapshots
+  key: string;
+  status: CellStatus;
+  // One per column of either snapshot, in the order of `headers`
+  cells: CellDiff[];
+}
+
+export interface SheetDiff {
+  name: string;
+  status: CellStatus;
+  headers: string[];
+  rows: RowDiff[];
+}
+
+const hasValue = (row: Cell[]) => row.some(cell => cell?.value?.trim());
+
+export function snapshotRowCount(sheets: SnapshotSheet[]): number {
+  return sheets.reduce((sum, sheet) => sum + sheet.rows.filter(hasValue).length, 0);
+}
+
+// Rows keyed by their first column; repeats of a key get a counter so each row has its own
+function rowsByKey(rows: Cell[][]): Map<string, Cell[]> {
+  const keyed = new Map<string, Cell[]>();
+  rows.filter(hasValue).forEach(row => {
+    const value = row[0]?.value?.trim() || '';
+    let key = value;
+    for (let n = 2; keyed.has(key); n++) key = `${value} (${n})`;
+    keyed.set(key, row);
+  });
+  return keyed;
+}
+
+function cellDiff(before?: string, after?: string): CellDiff {
+  const from = before?.trim() || '';
+  const to = after?.trim() || '';
+  if (from === to) return { status: 'unchanged', before, after };
+  if (!from) return { status: 'added', after };
+  if (!to) return { status: 'removed', before };
+  return { status: 'changed', before, after };
+}
+
+// Compares two snapshots of a step. Sheets are matched by name and rows by their
+// first column, since a new find can return the same entities in another order;
+// cells are matched by header, so added or removed columns show as added or
+// removed values.
+export function diffSnapshots(from: Snapshot, to: Snapshot): SheetDiff[] {
+  const headers = [...from.headers, ...to.headers.filter(header => !from.headers.includes(header))];
+  const valueIn = (snapshotHeaders: string[], row: Cell[] | undefined, header: string) => {
+    const index = snapshotHeaders.indexOf(header);
+    return index === -1 ? undefined : row?.[index]?.value;
+  };
+
+  const names = [...from.sheets.map(sheet => sheet.name), ...to.sheets.map(sheet => sheet.name)]
+    .filter((name, index, all) => all.indexOf(name) === index);
+
+  return names.map(name => {
+    const before = rowsByKey(from.sheets.find(sheet => sheet.name === name)?.rows || []);
+    const after = rowsByKey(to.sheets.find(sheet => sheet.name === name)?.rows || []);
+    const keys = [...after.keys(), ...[...before.keys()].filter(key => !after.has(key))];
+
+    const rows = keys.map(key => {
+      const cells = headers.map(header => cellDiff(
+        valueIn(from.headers, before.get(key), header),
+        valueIn(to.headers, after.get(key), header)
+      ));
+      const status: CellStatus = !before.has(key) ? 'added'
+        : !after.has(key) ? 'removed'
+        : cells.some(cell => cell.status !== 'unchanged') ? 'changed'
+        : 'unchanged';
+      return { key, status, cells };
+    });
+
+    const status: CellStatus = !from.sheets.some(sheet => sheet.name === name) ? 'added'
+      : !to.sheets.some(sheet => sheet.name === name) ? 'removed'
+      : rows.some(row => row.status !== 'unchanged') ? 'changed'
+      : 'unchanged';
+    return { name, status, headers, rows };
+  });
+}
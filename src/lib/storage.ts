@@ -1,3 +1,5 @@
+import type { WorkflowStep } from './workflow';
+
 interface SpreadsheetEntity {
   id: string;
   name: string;
@@ -6,12 +8,57 @@ interface SpreadsheetEntity {
   };
 }
 
+export interface SavedWorkflow {
+  steps: WorkflowStep[];
+  savedAt: number;
+  // The server revision these steps were built on, if the workflow had been saved there
+  revision?: number;
+}
+
 interface GlobalState {
+  version: number;
   headers: string[];
   entities: SpreadsheetEntity[];
 }
 
 const STORAGE_KEY = 'spreadsheet_state';
+export const STORAGE_VERSION = 3;
+
+// Each workflow has a key of its own, so tabs open on different workflows don't
+// write over each other's copies and one large workflow can't crowd out the rest
+const WORKFLOW_KEY_PREFIX = 'spreadsheet_workflow_';
+const workflowKey = (workflowId: string) => `${WORKFLOW_KEY_PREFIX}${workflowId}`;
+
+// A state as it was saved, by whichever version wrote it
+type StoredState = Partial<GlobalState> & { workflows?: { [workflowId: string]: SavedWorkflow } };
+
+// Each entry upgrades a saved state from that version to the next. Add one,
+// and bump STORAGE_VERSION, whenever the shape of what is saved changes.
+const MIGRATIONS: { [fromVersion: number]: (state: StoredState) => StoredState } = {
+  // Saves from before versioning only held the entity sheet
+  0: state => ({ ...state, version: 1, workflows: {} }),
+  // Workflow copies from before revisions were kept don't say which server revision
+  // they were built on, so the server's copy is used over them
+  1: state => ({ ...state, version: 2 }),
+  // Workflows moved out to keys of their own, which are written as the state is upgraded
+  2: ({ workflows, ...state }) => {
+    Object.entries(workflows || {}).forEach(([workflowId, workflow]) => {
+      localStorage.setItem(workflowKey(workflowId), JSON.stringify(workflow));
+    });
+    return { ...state, version: 3 };
+  }
+};
+
+function migrate(state: StoredState): GlobalState {
+  let migrated = state;
+  while ((migrated.version ?? 0) < STORAGE_VERSION) {
+    const version = migrated.version ?? 0;
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) throw new Error(`No migration from storage version ${version}`);
+    migrated = upgrade(migrated);
+  }
+  return migrated as GlobalState;
+}
 
 export class SpreadsheetStorage {
   private state: GlobalState;
@@ -23,9 +70,15 @@ export class SpreadsheetStorage {
   private loadState(): GlobalState {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      const state = JSON.parse(stored);
+      const migrated = migrate(state);
+      if (migrated.version !== state.version) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
+      }
+      return migrated;
     }
     return {
+      version: STORAGE_VERSION,
       headers: [],
       entities: []
     };
@@ -125,6 +178,22 @@ export class SpreadsheetStorage {
     this.saveState();
   }
 
+  // Workflows are read and written straight from their keys rather than through
+  // the state loaded at construction, which another tab may have saved over since
+  getWorkflow(workflowId: string): SavedWorkflow | undefined {
+    const stored = localStorage.getItem(workflowKey(workflowId));
+    return stored ? JSON.parse(stored) : undefined;
+  }
+
+  saveWorkflow(workflowId: string, steps: WorkflowStep[], revision?: number) {
+    const workflow: SavedWorkflow = { steps, savedAt: Date.now(), revision };
+    localStorage.setItem(workflowKey(workflowId), JSON.stringify(workflow));
+  }
+
+  deleteWorkflow(workflowId: string) {
+    localStorage.removeItem(workflowKey(workflowId));
+  }
+
   // Helper method to convert storage format to component format
   getEntityData(entityId: string): Array<Array<{ value: string; row: number; col: number }>> {
     const entity = this.state.entities.find(e => e.id === entityId);
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface RegisteredTask {
+  taskId: string;
+  hash: string;
+  backend: string;
+  name: string;
+  description: string;
+  model: string;
+  createdAt: string;
+  lastUsedAt: string;
+  uses: number;
+}
+
+interface RegistryState {
+  tasks: { [hash: string]: RegisteredTask };
+}
+
+const REGISTRY_PATH = path.join(process.cwd(), '.data', 'task-registry.json');
+
+// Remembers which upstream task_id was created for each task definition, so
+// identical definitions are created once and then only executed. Kept outside
+// .cache so purging cached responses doesn't forget the task ids. State is
+// re-read before every operation since each route may hold its own instance.
+export class TaskRegistry {
+  private state: RegistryState = { tasks: {} };
+
+  constructor(private filePath: string = REGISTRY_PATH) {}
+
+  private loadState(): RegistryState {
+    if (fs.existsSync(this.filePath)) {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    }
+    return { tasks: {} };
+  }
+
+  private saveState() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.state, null, 2));
+  }
+
+  // Definitions are compared by their serialized create request, scoped to the backend they live on
+  static hashDefinition(backend: string, definition: string): string {
+    return crypto.createHash('sha256').update(`${backend}\n${definition}`).digest('hex');
+  }
+
+  get(hash: string): RegisteredTask | undefined {
+    this.state = this.loadState();
+    return this.state.tasks[hash];
+  }
+
+  register(hash: string, taskId: string, backend: string, definition: { name: string; description: string; model: string }): RegisteredTask {
+    this.state = this.loadState();
+    const now = new Date().toISOString();
+    const task: RegisteredTask = {
+      taskId,
+      hash,
+      backend,
+      name: definition.name,
+      description: definition.description,
+      model: definition.model,
+      createdAt: now,
+      lastUsedAt: now,
+      uses: 0
+    };
+    this.state.tasks[hash] = task;
+    this.saveState();
+    return task;
+  }
+
+  recordUse(hash: string) {
+    this.state = this.loadState();
+    const task = this.state.tasks[hash];
+    if (task) {
+      task.uses++;
+      task.lastUsedAt = new Date().toISOString();
+      this.saveState();
+    }
+  }
+
+  remove(hash: string) {
+    this.state = this.loadState();
+    delete this.state.tasks[hash];
+    this.saveState();
+  }
+
+  list(): RegisteredTask[] {
+    this.state = this.loadState();
+    return Object.values(this.state.tasks)
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+}
+
+export const taskRegistry = new TaskRegistry();
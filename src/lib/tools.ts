@@ -0,0 +1,217 @@
+import type { JSONSchema } from './schema';
+import type { RunMode } from './enrichment';
+
+// Shared by the Chat panel and the orchestrator, so this module must stay free of Node-only imports
+
+export type ToolName =
+  | 'findall_sheets'
+  | 'update_headers'
+  | 'add_rows'
+  | 'delete_rows'
+  | 'add_columns'
+  | 'delete_columns'
+  | 'run_cells'
+  | 'aggregate';
+
+export interface ToolCall {
+  type: ToolName;
+  params: {
+    query?: string;      // For findall_sheets
+    headers?: string[];  // For update_headers
+    values?: string[];   // For add_rows: the first column of each new row
+    rows?: number[];     // For delete_rows: zero-based row indexes
+    columns?: string[];  // For add_columns and delete_columns
+    mode?: RunMode;      // For run_cells
+    criteria?: string;   // For aggregate
+  };
+  // The assistant's reason for the call, shown to the user
+  reason?: string;
+}
+
+// What the assistant is told about the sheet it is working on
+export interface SheetContext {
+  headers: string[];
+  rowCount: number;
+  // The first rows' values, enough to see what the sheet holds
+  rows: string[][];
+}
+
+export interface ToolDefinition {
+  name: ToolName;
+  description: string;
+  params: JSONSchema;
+}
+
+const stringList = (description: string): JSONSchema => ({ type: 'array', items: { type: 'string' }, description });
+
+export const TOOLS: ToolDefinition[] = [
+  {
+    name: 'findall_sheets',
+    description: 'Search for entities matching a query and create a sheet for each one found',
+    params: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'What to search for' } },
+      required: ['query'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'update_headers',
+    description: 'Replace every column header. The first header is the query the sheet finds rows for',
+    params: {
+      type: 'object',
+      properties: { headers: stringList('The new headers, in order') },
+      required: ['headers'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'add_rows',
+    description: 'Append rows, one per value, with the value in the first column',
+    params: {
+      type: 'object',
+      properties: { values: stringList('First-column value of each new row') },
+      required: ['values'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'delete_rows',
+    description: 'Delete rows by zero-based index',
+    params: {
+      type: 'object',
+      properties: { rows: { type: 'array', items: { type: 'integer' }, description: 'Zero-based indexes of the rows to delete' } },
+      required: ['rows'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'add_columns',
+    description: 'Append enrichment columns; Run Cells fills them from each row\'s first column',
+    params: {
+      type: 'object',
+      properties: { columns: stringList('Headers of the new columns') },
+      required: ['columns'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'delete_columns',
+    description: 'Delete columns by header. The first column cannot be deleted',
+    params: {
+      type: 'object',
+      properties: { columns: stringList('Headers of the columns to delete') },
+      required: ['columns'],
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'run_cells',
+    description: 'Fill the enrichment columns for every row',
+    params: {
+      type: 'object',
+      properties: {
+        mode: {
+          type: 'string',
+          enum: ['all', 'empty', 'stale'],
+          description: 'all reruns every cell, empty only fills blanks, stale fills blanks and cells whose inputs changed'
+        }
+      },
+      additionalProperties: false
+    }
+  },
+  {
+    name: 'aggregate',
+    description: 'Summarise the sheet into a new aggregate sheet',
+    params: {
+      type: 'object',
+      properties: { criteria: { type: 'string', description: 'How to aggregate, e.g. "count companies by country"' } },
+      required: ['criteria'],
+      additionalProperties: false
+    }
+  }
+];
+
+// Plays a call against the context so the next step sees its effect, returning
+// what happened in a sentence the model can read back
+export function applyToolCall(context: SheetContext, call: ToolCall): { context: SheetContext; result: string } {
+  const { params } = call;
+
+  switch (call.type) {
+    case 'update_headers': {
+      const headers = params.headers || [];
+      return {
+        context: { ...context, headers },
+        result: `Headers are now: ${headers.join(', ')}`
+      };
+    }
+    case 'add_rows': {
+      const values = params.values || [];
+      return {
+        context: {
+          ...context,
+          rowCount: context.rowCount + values.length,
+          rows: [...context.rows, ...values.map(value => [value])]
+        },
+        result: `Added ${values.length} rows; the sheet has ${context.rowCount + values.length}`
+      };
+    }
+    case 'delete_rows': {
+      const rows = (params.rows || []).filter(row => row >= 0 && row < context.rowCount);
+      return {
+        context: {
+          ...context,
+          rowCount: context.rowCount - rows.length,
+          rows: context.rows.filter((_, index) => !rows.includes(index))
+        },
+        result: `Deleted ${rows.length} rows; the sheet has ${context.rowCount - rows.length}`
+      };
+    }
+    case 'add_columns': {
+      const columns = (params.columns || []).filter(column => !context.headers.includes(column));
+      return {
+        context: { ...context, headers: [...context.headers, ...columns] },
+        result: `Added columns: ${columns.join(', ') || 'none (they already exist)'}`
+      };
+    }
+    case 'delete_columns': {
+      const columns = (params.columns || []).filter(column => context.headers.indexOf(column) > 0);
+      const kept = context.headers.map((header, index) => index === 0 || !columns.includes(header));
+      return {
+        context: {
+          ...context,
+          headers: context.headers.filter((_, index) => kept[index]),
+          rows: context.rows.map(row => row.filter((_, index) => kept[index]))
+        },
+        result: `Deleted columns: ${columns.join(', ') || 'none (no such columns)'}`
+      };
+    }
+    case 'findall_sheets':
+      return { context, result: `A sheet will be created for each result of "${params.query}"` };
+    case 'run_cells':
+      return { context, result: `Cells will be filled (${params.mode || 'all'}) for ${context.rowCount} rows` };
+    case 'aggregate':
+      return { context, result: `An aggregate sheet will be created: ${params.criteria}` };
+    default:
+      return { context, result: 'Unknown tool' };
+  }
+}
+
+// The call that reverses a call's effect on the sheet it was applied to, where
+// one exists. Deletions and runs discard values, so they can't be reversed this way.
+export function inverseToolCall(context: SheetContext, call: ToolCall): ToolCall | undefined {
+  const { params } = call;
+
+  switch (call.type) {
+    case 'update_headers':
+      return { type: 'update_headers', params: { headers: context.headers } };
+    case 'add_rows':
+      return { type: 'delete_rows', params: { rows: (params.values || []).map((_, i) => context.rowCount + i) } };
+    case 'add_columns': {
+      const columns = (params.columns || []).filter(column => !context.headers.includes(column));
+      return columns.length > 0 ? { type: 'delete_columns', params: { columns } } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,194 @@
+import { ColumnSpec, findHeader, specAt } from './columns';
+
+// Shared by the workflow builder and the orchestrator, so this module must stay free of Node-only imports
+
+export type WorkflowStepType = 'single' | '3d' | 'aggregation' | 'llm_pipe';
+
+type Cell = { value: string; row: number; col: number };
+type ThreeDSheet = { prevRow: Cell[]; data: Cell[][] };
+
+export interface WorkflowStep {
+  // Stable across edits, so a step's sheet keeps its state when others are added or removed
+  id: string;
+  type: WorkflowStepType;
+  data: Cell[][] | Array<{ prevRow: Cell[]; data: Cell[][] }>;
+  executed?: boolean;
+  // Starting headers, prompt, title and column types for steps set up ahead of time
+  // (e.g. accepted from the assistant or restored from storage); once the step is
+  // on screen its sheet owns them
+  headers?: string[];
+  prompt?: string;
+  title?: string;
+  columnSpecs?: ColumnSpec[];
+}
+
+// A step as the assistant describes it: what it is, not what it holds
+export interface ProposedStep {
+  type: WorkflowStepType;
+  summary?: string;
+  // For single and 3d steps the first header is the find query; the rest are enrichment columns
+  headers: string[];
+  // Aggregation criteria, or the instruction an LLM pipe applies to each row
+  prompt?: string;
+}
+
+// What a step's sheet is handed while it stays on screen, e.g. when a proposal
+// changes its columns. 3D sheets get their rows through their data instead.
+export interface StepDefinition {
+  headers: string[];
+  columnSpecs: ColumnSpec[];
+  prompt?: string;
+  rows?: Cell[][];
+}
+
+export interface StepDiff {
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: ProposedStep;
+  after?: ProposedStep;
+  // What differs, one line each, for changed steps
+  changes: string[];
+}
+
+export const STEP_TYPES: { type: WorkflowStepType; label: string; description: string }[] = [
+  { type: 'single', label: 'Sheet', description: 'Finds rows for its first header, then fills the other columns per row' },
+  { type: '3d', label: '3D Sheet', description: 'One sheet per row of the previous step, each found and filled like a sheet' },
+  { type: 'aggregation', label: 'Aggregation', description: 'Summarises every sheet of the previous 3D step into one row each' },
+  { type: 'llm_pipe', label: 'LLM Pipe', description: 'Runs a prompt over each row of the previous step' },
+];
+
+// Which step types may come straight after each one; the workflow always starts with a sheet
+const NEXT_STEPS: { [type in WorkflowStepType]: WorkflowStepType[] } = {
+  single: ['3d', 'llm_pipe'],
+  '3d': ['aggregation'],
+  aggregation: ['3d', 'llm_pipe'],
+  llm_pipe: [],
+};
+
+export function stepLabel(type: WorkflowStepType): string {
+  return STEP_TYPES.find(step => step.type === type)?.label || type;
+}
+
+// Rows holding any value; a 3D step counts the rows of all its sheets
+export function stepRowCount(step: WorkflowStep): number {
+  const hasValue = (row: Cell[]) => row.some(cell => cell?.value?.trim());
+  if (step.type === '3d') {
+    return (step.data as Array<{ prevRow: Cell[]; data: Cell[][] }>)
+      .reduce((sum, sheet) => sum + (sheet.data || []).filter(hasValue).length, 0);
+  }
+  return (step.data as Cell[][]).filter(hasValue).length;
+}
+
+// Fields that don't apply to a step type are dropped, so they don't show up as differences
+export function normalizeStep(step: ProposedStep): ProposedStep {
+  const headers = (step.headers || []).map(header => header.trim()).filter(Boolean);
+  return {
+    type: step.type,
+    summary: step.summary,
+    headers: step.type === 'llm_pipe' ? [] : headers,
+    prompt: step.type === 'aggregation' || step.type === 'llm_pipe' ? step.prompt?.trim() || '' : undefined
+  };
+}
+
+// Problems with a proposed sequence, one line each; empty when it can be built
+export function workflowErrors(steps: ProposedStep[]): string[] {
+  const errors: string[] = [];
+  if (steps.length === 0) return ['A workflow needs at least one step'];
+  if (steps[0].type !== 'single') errors.push('The first step must be a single sheet');
+
+  steps.forEach((step, index) => {
+    const previous = steps[index - 1];
+    if (previous && !NEXT_STEPS[previous.type].includes(step.type)) {
+      errors.push(`Step ${index + 1} (${step.type}) can't follow a ${previous.type} step; after ${previous.type} comes ${NEXT_STEPS[previous.type].join(' or ') || 'nothing'}`);
+    }
+    if ((step.type === 'single' || step.type === '3d') && step.headers.length === 0) {
+      errors.push(`Step ${index + 1} needs at least a first header to find rows with`);
+    }
+    if (step.type === 'llm_pipe' && !step.prompt) {
+      errors.push(`Step ${index + 1} needs a prompt to run over each row`);
+    }
+  });
+
+  return errors;
+}
+
+// Compares two workflows step by step, by position
+export function diffWorkflow(current: ProposedStep[], proposed: ProposedStep[]): StepDiff[] {
+  const length = Math.max(current.length, proposed.length);
+
+  return Array.from({ length }, (_, index) => {
+    const before = current[index] && normalizeStep(current[index]);
+    const after = proposed[index] && normalizeStep(proposed[index]);
+    if (!before) return { status: 'added', after, changes: [] };
+    if (!after) return { status: 'removed', before, changes: [] };
+
+    const changes: string[] = [];
+    if (before.type !== after.type) {
+      changes.push(`${stepLabel(before.type)} becomes ${stepLabel(after.type)}`);
+    }
+    const added = after.headers.filter(header => !before.headers.includes(header));
+    const removed = before.headers.filter(header => !after.headers.includes(header));
+    if (added.length > 0) changes.push(`+ columns: ${added.join(', ')}`);
+    if (removed.length > 0) changes.push(`- columns: ${removed.join(', ')}`);
+    if (added.length === 0 && removed.length === 0 && before.headers.join('\n') !== after.headers.join('\n')) {
+      changes.push('Columns reordered');
+    }
+    if ((before.prompt || '') !== (after.prompt || '')) {
+      changes.push(`Prompt: ${after.prompt || '(none)'}`);
+    }
+
+    return { status: changes.length > 0 ? 'changed' : 'unchanged', before, after, changes };
+  });
+}
+
+// Where each new header's column comes from among the old ones, -1 for a new column.
+// The first column holds each row's input, so it stays first whatever it is called;
+// the others follow their header.
+export function columnSources(fromHeaders: string[], toHeaders: string[]): number[] {
+  const enrichment = fromHeaders.slice(1);
+  return toHeaders.map((header, index) => {
+    if (index === 0) return 0;
+    const match = findHeader(header, enrichment);
+    return match === undefined ? -1 : enrichment.indexOf(match) + 1;
+  });
+}
+
+// Rows laid out under new headers, given where each column comes from
+export function remapRows<T extends Cell>(rows: T[][], sources: number[]): Array<Array<T | Cell>> {
+  return rows.map((row, rowIndex) => sources.map((source, col) => {
+    const cell = source >= 0 ? row[source] : undefined;
+    return cell ? { ...cell, col } : { value: '', row: row[0]?.row ?? rowIndex, col };
+  }));
+}
+
+// A step given a proposal's headers and prompt while keeping its id and what it
+// holds, each column moved under its new header (in every sheet of a 3D step).
+// LLM pipes have no columns of their own, so only their prompt changes.
+export function redefineStep(step: WorkflowStep, proposed: ProposedStep): WorkflowStep {
+  if (step.type === 'llm_pipe') {
+    return { ...step, prompt: proposed.prompt, executed: false };
+  }
+
+  const headers = proposed.headers.length > 0 ? proposed.headers : step.headers || [];
+  const sources = columnSources(step.headers || [], headers);
+  const data = step.type === '3d'
+    ? (step.data as ThreeDSheet[]).map(sheet => ({ ...sheet, data: remapRows(sheet.data, sources) }))
+    : remapRows(step.data as Cell[][], sources);
+
+  return {
+    ...step,
+    data,
+    headers,
+    columnSpecs: sources.map(source => specAt(step.columnSpecs, source)),
+    prompt: proposed.prompt,
+    executed: false
+  };
+}
+
+export function stepDefinition(step: WorkflowStep): StepDefinition {
+  return {
+    headers: step.headers || [],
+    columnSpecs: step.columnSpecs || [],
+    prompt: step.prompt,
+    rows: step.type === 'single' || step.type === 'aggregation' ? step.data as Cell[][] : undefined
+  };
+}
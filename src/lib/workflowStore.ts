@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { WorkflowStep, stepRowCount } from './workflow';
+
+// What the library shows and edits about a workflow, apart from its steps
+export interface WorkflowDetails {
+  name: string;
+  owner?: string;
+  archived?: boolean;
+  // When Run All last finished
+  lastRunAt?: string;
+}
+
+export interface StoredWorkflow extends WorkflowDetails {
+  id: string;
+  steps: WorkflowStep[];
+  // Bumped on every save, so a client saving over changes it hasn't seen can be turned away
+  revision: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkflowSummary extends WorkflowDetails {
+  id: string;
+  revision: number;
+  stepCount: number;
+  // Rows per step, in order
+  rowCounts: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class WorkflowConflictError extends Error {
+  current: StoredWorkflow;
+
+  constructor(current: StoredWorkflow) {
+    super(`Workflow ${current.id} is at revision ${current.revision}`);
+    this.current = current;
+  }
+}
+
+// One file per workflow, so saving one doesn't rewrite the others
+const WORKFLOWS_DIR = path.join(process.cwd(), '.data', 'workflows');
+// Workflows saved before they had names get this one
+const DEFAULT_NAME = 'Untitled workflow';
+
+export function isValidWorkflowId(id: string): boolean {
+  return /^[a-zA-Z0-9_-]+$/.test(id);
+}
+
+function workflowPath(id: string): string {
+  if (!isValidWorkflowId(id)) {
+    throw new Error(`Invalid workflow id: ${id}`);
+  }
+  return path.join(WORKFLOWS_DIR, `${id}.json`);
+}
+
+function writeWorkflow(workflow: StoredWorkflow) {
+  fs.mkdirSync(WORKFLOWS_DIR, { recursive: true });
+  // Written aside and renamed into place, so a reader never sees half a file
+  const filePath = workflowPath(workflow.id);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(workflow));
+  fs.renameSync(tempPath, filePath);
+}
+
+// The details in a request body, ignoring anything else or of the wrong type
+export function parseDetails(body: Record<string, unknown>): Partial<WorkflowDetails> {
+  const details: Partial<WorkflowDetails> = {};
+  if (typeof body.name === 'string' && body.name.trim()) details.name = body.name.trim();
+  if (typeof body.owner === 'string') details.owner = body.owner.trim() || undefined;
+  if (typeof body.archived === 'boolean') details.archived = body.archived;
+  if (typeof body.lastRunAt === 'string') details.lastRunAt = body.lastRunAt;
+  return details;
+}
+
+function summarize(workflow: StoredWorkflow): WorkflowSummary {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    owner: workflow.owner,
+    archived: workflow.archived,
+    lastRunAt: workflow.lastRunAt,
+    revision: workflow.revision,
+    stepCount: workflow.steps.length,
+    rowCounts: workflow.steps.map(stepRowCount),
+    createdAt: workflow.createdAt,
+    updatedAt: workflow.updatedAt
+  };
+}
+
+export function getWorkflow(id: string): StoredWorkflow | undefined {
+  const filePath = workflowPath(id);
+  if (!fs.existsSync(filePath)) return undefined;
+  const workflow: StoredWorkflow = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return { ...workflow, name: workflow.name || DEFAULT_NAME };
+}
+
+export function listWorkflows(): WorkflowSummary[] {
+  if (!fs.existsSync(WORKFLOWS_DIR)) return [];
+  return fs.readdirSync(WORKFLOWS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => getWorkflow(path.basename(file, '.json')))
+    .filter((workflow): workflow is StoredWorkflow => !!workflow)
+    .map(summarize)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Creates the workflow or replaces its steps, keeping its details. `revision` is
+// the one the client last loaded; when another save has happened since, nothing
+// is written and the stored workflow comes back in a WorkflowConflictError.
+// Saving without a revision only works for a workflow that doesn't exist yet.
+export function saveWorkflow(
+  id: string,
+  steps: WorkflowStep[],
+  revision?: number,
+  details: Partial<WorkflowDetails> = {}
+): StoredWorkflow {
+  const existing = getWorkflow(id);
+  if (existing && existing.revision !== revision) {
+    throw new WorkflowConflictError(existing);
+  }
+
+  const now = new Date().toISOString();
+  const workflow: StoredWorkflow = {
+    name: DEFAULT_NAME,
+    ...details,
+    ...existing,
+    id,
+    steps,
+    revision: (existing?.revision ?? 0) + 1,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+  writeWorkflow(workflow);
+  return workflow;
+}
+
+// Renames, archives and the like. Details don't conflict with step saves, so
+// they leave the revision and updatedAt alone.
+export function updateWorkflowDetails(id: string, details: Partial<WorkflowDetails>): StoredWorkflow | undefined {
+  const existing = getWorkflow(id);
+  if (!existing) return undefined;
+
+  const workflow = { ...existing, ...details };
+  writeWorkflow(workflow);
+  return workflow;
+}
+
+export function duplicateWorkflow(id: string, details: Partial<WorkflowDetails> = {}): StoredWorkflow | undefined {
+  const original = getWorkflow(id);
+  if (!original) return undefined;
+
+  return saveWorkflow(crypto.randomUUID(), original.steps, undefined, {
+    name: `Copy of ${original.name}`,
+    owner: original.owner,
+    ...details
+  });
+}
+
+export function deleteWorkflow(id: string): boolean {
+  const filePath = workflowPath(id);
+  if (!fs.existsSync(filePath)) return false;
+  fs.unlinkSync(filePath);
+  return true;
+}